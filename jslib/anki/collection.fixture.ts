@@ -0,0 +1,37 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import initSqlJs, { type SqlJsStatic } from 'sql.js';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+
+// Node loads the wasm next to the module
+export const SQL: SqlJsStatic = await initSqlJs();
+
+// Anki schema 11 tables used here, as created by the desktop app
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null);
+INSERT INTO col VALUES (1, 0, 0, 0, 11, 0, 0, 0, '{}', '{}', '{}', '{}', '{}');
+`;
+
+// Tags as stored in the notes table, e.g. ' a b '
+export function makeCollection(notes: { id: number, tags: string }[]): Uint8Array {
+  const db = new SQL.Database();
+  try {
+    db.run(SCHEMA);
+    for (const { id, tags } of notes) {
+      db.run('INSERT INTO notes VALUES (?, ?, 1, 0, 0, ?, ?, 0, 0, 0, \'\')', [id, `guid${id}`, tags, `front${id}\x1fback${id}`]);
+    }
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
+
+export function makeApkg(collection: Uint8Array, entry: string = 'collection.anki21', extra: Zippable = {}): Uint8Array {
+  return zipSync({ [entry]: collection, media: strToU8('{}'), ...extra });
+}
@@ -0,0 +1,65 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { strToU8 } from 'fflate';
+import { AnkiError, joinTags, openCollection, readNotes, splitTags, unpackApkg } from '#anki/collection';
+import { makeApkg, makeCollection, SQL } from '#anki/collection.fixture';
+
+test('tags field splits on whitespace and joins with surrounding spaces', () => {
+  expect(splitTags(' a  b::c\tx ')).toEqual(['a', 'b::c', 'x']);
+  expect(splitTags('')).toEqual([]);
+  expect(joinTags(['a', 'b::c'])).toBe(' a b::c ');
+  expect(joinTags([])).toBe('');
+});
+
+test('joined tags split back', () => {
+  fc.assert(
+    fc.property(fc.array(fc.string({ unit: fc.constantFrom('a', 'b', ':', 'é'), minLength: 1 })), (tags) => {
+      expect(splitTags(joinTags(tags))).toEqual(tags);
+    }),
+  );
+});
+
+const notes = [{ id: 2, tags: ' b a ' }, { id: 1, tags: '' }];
+const collection = makeCollection(notes);
+
+test('collection reads notes by id', () => {
+  const db = openCollection(SQL, collection);
+  expect(readNotes(db)).toEqual([{ id: 1, tags: [] }, { id: 2, tags: ['b', 'a'] }]);
+  db.close();
+});
+
+test('apkg reads its collection, preferring .anki21', () => {
+  const db = openCollection(SQL, makeApkg(collection, 'collection.anki21', { 'collection.anki2': makeCollection([]) }));
+  expect(readNotes(db).length).toBe(2);
+  db.close();
+  expect(unpackApkg(makeApkg(collection, 'collection.anki2')).entry).toBe('collection.anki2');
+});
+
+test('empty collection has no notes', () => {
+  const db = openCollection(SQL, makeCollection([]));
+  expect(readNotes(db)).toEqual([]);
+  db.close();
+});
+
+test.for([
+  ['random bytes', strToU8('hello world, not a collection'), 'NotACollection'],
+  ['broken zip', strToU8('PK\x03\x04 truncated'), 'NotACollection'],
+  ['zip without collection', makeApkg(strToU8('x'), 'other'), 'MissingCollection'],
+  ['newer format', makeApkg(strToU8('zstd'), 'collection.anki21b', { 'collection.anki2': collection }), 'UnsupportedCollection'],
+  ['apkg with non-SQLite collection', makeApkg(strToU8('not sqlite')), 'NotACollection'],
+] as const)('%s is rejected', ([, bytes, code]) => {
+  expect(() => openCollection(SQL, bytes)).toThrowError(AnkiError);
+  expect(() => openCollection(SQL, bytes)).toThrowError(expect.objectContaining({ code }));
+});
+
+test('database without notes table is rejected', () => {
+  const other = new SQL.Database();
+  other.run('CREATE TABLE x (y)');
+  const db = openCollection(SQL, other.export());
+  other.close();
+  expect(() => readNotes(db)).toThrowError(expect.objectContaining({ code: 'NotACollection' }));
+  db.close();
+});
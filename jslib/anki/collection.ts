@@ -0,0 +1,94 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { unzipSync, type Unzipped } from 'fflate';
+import type { Database, SqlJsStatic } from 'sql.js';
+
+export type AnkiErrorCode =
+  | 'NotACollection' // neither an SQLite collection nor a zip, or not readable as a collection
+  | 'MissingCollection' // .apkg without a collection file
+  | 'UnsupportedCollection' // .apkg with only a newer (zstd-compressed) collection
+  | 'ConnectError'; // AnkiConnect request failed or returned an error
+
+export class AnkiError extends Error {
+  code: AnkiErrorCode;
+
+  constructor(code: AnkiErrorCode, message: string, options?: { cause: any }) {
+    super(message, options);
+    this.name = 'AnkiError';
+    this.code = code;
+  }
+}
+
+export interface AnkiNote {
+  id: number,
+  tags: string[], // in stored order
+}
+
+// Notes table stores tags space-separated, with a leading and trailing space if nonempty
+export function splitTags(field: string): string[] {
+  return field.split(/\p{White_Space}+/v).filter((tag) => tag.length);
+}
+
+export function joinTags(tags: string[]): string {
+  return tags.length ? ` ${tags.join(' ')} ` : '';
+}
+
+const SQLITE_MAGIC = 'SQLite format 3\0';
+const ZIP_MAGIC = 'PK\x03\x04';
+
+function hasMagic(bytes: Uint8Array, magic: string): boolean {
+  return bytes.length >= magic.length && Array.from(magic).every((c, i) => bytes[i] === c.charCodeAt(0));
+}
+
+// Collection entries of an .apkg, most preferred first
+// Newer exports have a zstd-compressed collection.anki21b, plus a placeholder collection.anki2 for older clients
+const APKG_ENTRIES = ['collection.anki21', 'collection.anki2'];
+
+export interface Apkg {
+  entry: string, // name of the collection file within
+  files: Unzipped, // all files, including the collection and media
+}
+
+export function unpackApkg(bytes: Uint8Array): Apkg {
+  let files: Unzipped;
+  try {
+    files = unzipSync(bytes);
+  } catch (e) {
+    throw new AnkiError('NotACollection', 'Not a readable .apkg (zip) file', { cause: e });
+  }
+
+  if (!('collection.anki21' in files) && 'collection.anki21b' in files) {
+    throw new AnkiError('UnsupportedCollection', 'Export uses the newer collection format; export with "Support older Anki versions"');
+  }
+  const entry = APKG_ENTRIES.find((name) => name in files);
+  if (entry === undefined) {
+    throw new AnkiError('MissingCollection', 'No collection file in .apkg');
+  }
+  return { entry, files };
+}
+
+// Opens an .anki2/.anki21 collection (an SQLite database) or an .apkg export (a zip containing one), by content
+// The database is a copy, so the bytes are never modified; caller must close() it
+export function openCollection(SQL: SqlJsStatic, bytes: Uint8Array): Database {
+  if (hasMagic(bytes, ZIP_MAGIC)) {
+    const { entry, files } = unpackApkg(bytes);
+    bytes = files[entry];
+  }
+  if (!hasMagic(bytes, SQLITE_MAGIC)) {
+    throw new AnkiError('NotACollection', 'Not an SQLite collection or .apkg file');
+  }
+  return new SQL.Database(bytes);
+}
+
+// All notes by increasing id
+export function readNotes(db: Database): AnkiNote[] {
+  let rows;
+  try {
+    rows = db.exec('SELECT id, tags FROM notes ORDER BY id');
+  } catch (e) {
+    throw new AnkiError('NotACollection', 'Database has no readable notes table', { cause: e });
+  }
+  // no result set at all if no rows
+  return (rows[0]?.values ?? []).map(([id, tags]) => ({ id: id as number, tags: splitTags(tags as string) }));
+}
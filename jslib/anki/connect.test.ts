@@ -0,0 +1,138 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { AnkiError, joinTags, openCollection, readNotes } from '#anki/collection';
+import { makeCollection, SQL } from '#anki/collection.fixture';
+import { ankiConnect, applyConnect, tagQuery } from '#anki/connect';
+import { mockAnkiConnect } from '#anki/connectMock';
+import { applyMapping, compileMapping } from '#tags/apply';
+import { parseDefault } from '#tags/parseLine';
+
+function open(notes: { id: number, tags: string }[]) {
+  const db = openCollection(SQL, makeCollection(notes));
+  const mock = mockAnkiConnect(db);
+  return { db, mock, client: ankiConnect({ fetch: mock.fetch }) };
+}
+
+test('client posts version 6 requests with the key', async () => {
+  const bodies: any[] = new Array();
+  const client = ankiConnect({ url: 'http://anki', key: 'secret', fetch: async (input, init) => {
+    expect(input).toBe('http://anki');
+    bodies.push(JSON.parse(String(init?.body)));
+    return new Response(JSON.stringify({ result: ['a'], error: null }));
+  } });
+
+  expect(await client.invoke('getTags', {})).toEqual(['a']);
+  expect(bodies).toEqual([{ action: 'getTags', version: 6, params: {}, key: 'secret' }]);
+});
+
+test('client throws on errors', async () => {
+  const failing = (response: () => Response) => ankiConnect({ fetch: async () => response() }).invoke('getTags', {});
+  await expect(failing(() => new Response(JSON.stringify({ result: null, error: 'nope' }))))
+    .rejects.toThrow(new AnkiError('ConnectError', 'AnkiConnect getTags failed: nope'));
+  await expect(failing(() => new Response('', { status: 403 }))).rejects.toMatchObject({ code: 'ConnectError' });
+  await expect(failing(() => new Response('not json'))).rejects.toMatchObject({ code: 'ConnectError' });
+  await expect(failing(() => { throw new TypeError('fetch failed'); })).rejects.toMatchObject({ code: 'ConnectError' });
+});
+
+test('tag queries escape search wildcards', () => {
+  expect(tagQuery('a::b_c*"d\\')).toBe('"tag:a::b\\_c\\*\\"d\\\\"');
+});
+
+const rules = compileMapping(parseDefault(`
+Biology
+  Cell Cytology
+  Botany Biology::Plants
+Plants Biology::Plants
+Chemistry
+`));
+
+test('mapping applies as removals then additions', async () => {
+  const { db, mock, client } = open([
+    { id: 1, tags: ' Biology::Cell Chemistry ' },
+    { id: 2, tags: ' Chemistry ' },
+    { id: 3, tags: ' Plants Biology::Botany ' },
+  ]);
+
+  const plan = await applyConnect(client, rules);
+  expect(plan.operations).toEqual([
+    { action: 'removeTags', params: { notes: [1], tags: 'Biology::Cell' } },
+    { action: 'removeTags', params: { notes: [3], tags: 'Plants' } },
+    { action: 'removeTags', params: { notes: [3], tags: 'Biology::Botany' } },
+    { action: 'addTags', params: { notes: [1], tags: 'Cytology' } },
+    { action: 'addTags', params: { notes: [3], tags: 'Biology::Plants' } },
+  ]);
+  expect(plan.report.map(({ id, to }) => ({ id, to }))).toEqual([
+    { id: 1, to: ['Cytology', 'Chemistry'] },
+    { id: 3, to: ['Biology::Plants'] },
+  ]);
+  // unchanged labels are not searched
+  expect(mock.requests.filter(({ action }) => action === 'findNotes').map(({ params }) => (params as { query: string }).query))
+    .toEqual(['"tag:Biology::Cell"', '"tag:Biology::Botany"', '"tag:Plants"']);
+
+  expect(readNotes(db)).toEqual([
+    { id: 1, tags: ['Chemistry', 'Cytology'] },
+    { id: 2, tags: ['Chemistry'] },
+    { id: 3, tags: ['Biology::Plants'] },
+  ]);
+  db.close();
+});
+
+test('child tags kept survive removal of their parent, and tags match in any case', async () => {
+  const { db, client } = open([
+    { id: 1, tags: ' Plants Plants::Trees Plants::Cell ' },
+    { id: 2, tags: ' biology::cell plants ' },
+  ]);
+  const plan = await applyConnect(client, compileMapping(parseDefault('Plants Botany\n  Cell Cytology\n')));
+  expect(plan.operations).toEqual([
+    { action: 'removeTags', params: { notes: [1], tags: 'Plants' } },
+    { action: 'removeTags', params: { notes: [1], tags: 'Plants::Cell' } },
+    { action: 'removeTags', params: { notes: [2], tags: 'plants' } },
+    { action: 'addTags', params: { notes: [1, 2], tags: 'Botany' } },
+    { action: 'addTags', params: { notes: [1], tags: 'Plants::Trees' } },
+    { action: 'addTags', params: { notes: [1], tags: 'Cytology' } },
+  ]);
+  expect(readNotes(db)).toEqual([
+    { id: 1, tags: ['Botany', 'Plants::Trees', 'Cytology'] },
+    { id: 2, tags: ['biology::cell', 'Botany'] },
+  ]);
+  db.close();
+});
+
+test('dry run only reads', async () => {
+  const { db, mock, client } = open([{ id: 1, tags: ' Plants ' }]);
+  const plan = await applyConnect(client, rules, { dryRun: true });
+  expect(plan.report).toEqual([{ id: 1, from: ['Plants'], to: ['Biology::Plants'], changes: [
+    { from: 'Plants', to: ['Biology::Plants'], linum: 5 },
+  ] }]);
+  expect(mock.requests.map(({ action }) => action)).toEqual(['findNotes', 'findNotes', 'findNotes', 'notesInfo']);
+  expect(readNotes(db)).toEqual([{ id: 1, tags: ['Plants'] }]);
+  db.close();
+});
+
+test('mapping without matching notes makes no requests beyond searches', async () => {
+  const { db, mock, client } = open([{ id: 1, tags: ' Chemistry ' }]);
+  expect(await applyConnect(client, rules)).toEqual({ operations: [], report: [] });
+  expect(mock.requests.every(({ action }) => action === 'findNotes')).toBe(true);
+  db.close();
+});
+
+test('applied tags match the mapping, up to order', async () => {
+  const tag = fc.constantFrom('a', 'b', 'c', 'a::b', 'b::c');
+  await fc.assert(
+    fc.asyncProperty(
+      fc.array(fc.uniqueArray(tag), { maxLength: 5 }),
+      fc.array(fc.tuple(tag, fc.uniqueArray(tag, { minLength: 1 }))),
+      async (noteTags, pairs) => {
+        const rules = new Map(pairs.map(([from, targets], linum) => [from, { targets, linum }]));
+        const { db, client } = open(noteTags.map((tags, i) => ({ id: i + 1, tags: joinTags(tags) })));
+        await applyConnect(client, rules);
+        expect(readNotes(db).map(({ tags }) => tags.sort())).toEqual(noteTags.map((tags) => applyMapping(rules, tags).tags.sort()));
+        db.close();
+      },
+    ),
+    { numRuns: 30 },
+  );
+});
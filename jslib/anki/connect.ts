@@ -0,0 +1,134 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { AnkiError } from '#anki/collection';
+import type { NoteChange } from '#anki/export';
+import { applyMapping, type TagRules } from '#tags/apply';
+
+// Only the parts used here; AnkiConnect also returns fields, model and cards
+export interface NoteInfo {
+  noteId: number,
+  tags: string[],
+}
+
+// Params and result of each AnkiConnect action used, see <https://git.sr.ht/~foosoft/anki-connect>
+// Tags params are space-separated
+export interface AnkiConnectActions {
+  findNotes: { params: { query: string }, result: number[] },
+  notesInfo: { params: { notes: number[] }, result: NoteInfo[] },
+  addTags: { params: { notes: number[], tags: string }, result: null },
+  removeTags: { params: { notes: number[], tags: string }, result: null },
+  replaceTagsInAllNotes: { params: { tag_to_replace: string, replace_with_tag: string }, result: null },
+  getTags: { params: {}, result: string[] },
+}
+
+export type AnkiConnectAction = keyof AnkiConnectActions;
+
+export interface AnkiConnectOptions {
+  url?: string, // default AnkiConnect's own default
+  key?: string | null, // API key, if AnkiConnect is configured with one; default none
+  fetch?: typeof fetch, // e.g. a mock, see mockAnkiConnect(); default global fetch
+}
+
+export interface AnkiConnect {
+  invoke<A extends AnkiConnectAction>(action: A, params: AnkiConnectActions[A]['params']): Promise<AnkiConnectActions[A]['result']>,
+}
+
+// Protocol version 6: POST {action, version, params, key?}, response {result, error}
+export function ankiConnect(options: AnkiConnectOptions = {}): AnkiConnect {
+  const { url = 'http://127.0.0.1:8765', key = null, fetch: fetch_ = fetch } = options;
+
+  return {
+    async invoke(action, params) {
+      let body;
+      try {
+        const response = await fetch_(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action, version: 6, params, ...(key !== null ? { key } : {}) }),
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        body = await response.json();
+      } catch (e) {
+        throw new AnkiError('ConnectError', `AnkiConnect ${action} request failed`, { cause: e });
+      }
+
+      if (body.error !== null) {
+        throw new AnkiError('ConnectError', `AnkiConnect ${action} failed: ${body.error}`);
+      }
+      return body.result;
+    },
+  };
+}
+
+// Tag search term matching the tag and its children
+// '\', '*', '_', '"' are special in Anki searches; ':' is not after 'tag:'
+export function tagQuery(tag: string): string {
+  return `"tag:${tag.replace(/[\\*_"]/gv, '\\$&')}"`;
+}
+
+export interface TagOperation {
+  action: 'addTags' | 'removeTags',
+  params: { notes: number[], tags: string },
+}
+
+export interface ConnectPlan {
+  operations: TagOperation[], // all removals, then all additions
+  report: NoteChange[], // only notes whose tags changed, by increasing id
+}
+
+// Anki's hierarchy separator, whatever the mapping file used
+function isChildTag(tag: string, parent: string): boolean {
+  return tag.toLowerCase().startsWith(parent.toLowerCase() + '::');
+}
+
+// Rewrites the tags of every note in a running Anki by the rules (see compileMapping()), as a batch of operations
+// With dryRun, only reads the collection and returns the plan
+//
+// Anki compares tags case-insensitively, so a note's tag matches a rule in any case, and removals go first (as a tag
+// may be renamed to itself in another case)
+// Anki also removes the children of a removed tag, so children kept by the rules are added back
+export async function applyConnect(client: AnkiConnect, rules: TagRules, options: { dryRun?: boolean } = {}): Promise<ConnectPlan> {
+  const { dryRun = false } = options;
+
+  const ids = new Set<number>();
+  for (const [tag, { targets }] of rules) {
+    if (targets.length !== 1 || targets[0] !== tag) {
+      for (const id of await client.invoke('findNotes', { query: tagQuery(tag) })) {
+        ids.add(id);
+      }
+    }
+  }
+
+  const report: NoteChange[] = new Array();
+  // notes by tag
+  const removals = new Map<string, number[]>(), additions = new Map<string, number[]>();
+  function add(map: Map<string, number[]>, tag: string, id: number) {
+    map.set(tag, (map.get(tag) ?? []).concat([id]));
+  }
+
+  const infos = ids.size ? await client.invoke('notesInfo', { notes: Array.from(ids).sort((a, b) => a - b) }) : [];
+  for (const { noteId: id, tags } of infos) {
+    const { tags: to, changes } = applyMapping(rules, tags);
+    const removed = tags.filter((tag) => !to.includes(tag));
+    const added = to.filter((tag) => !tags.includes(tag) || removed.some((parent) => isChildTag(tag, parent)));
+    removed.forEach((tag) => add(removals, tag, id));
+    added.forEach((tag) => add(additions, tag, id));
+    if (removed.length || added.length) {
+      report.push({ id, from: tags, to, changes });
+    }
+  }
+
+  const operations: TagOperation[] = [
+    ...Array.from(removals, ([tags, notes]) => ({ action: 'removeTags' as const, params: { notes, tags } })),
+    ...Array.from(additions, ([tags, notes]) => ({ action: 'addTags' as const, params: { notes, tags } })),
+  ];
+  if (!dryRun) {
+    for (const { action, params } of operations) {
+      await client.invoke(action, params);
+    }
+  }
+  return { operations, report };
+}
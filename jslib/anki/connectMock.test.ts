@@ -0,0 +1,63 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import { openCollection, readNotes } from '#anki/collection';
+import { makeCollection, SQL } from '#anki/collection.fixture';
+import { ankiConnect } from '#anki/connect';
+import { mockAnkiConnect } from '#anki/connectMock';
+
+const collection = makeCollection([
+  { id: 1, tags: ' Biology::Cell Chemistry ' },
+  { id: 2, tags: ' chemistry a_b ' },
+  { id: 3, tags: ' Biology a*b ' },
+]);
+
+function open() {
+  const db = openCollection(SQL, collection);
+  return { db, client: ankiConnect({ fetch: mockAnkiConnect(db).fetch }) };
+}
+
+test('searches match tags case-insensitively, with children and wildcards', async () => {
+  const { db, client } = open();
+  const find = (query: string) => client.invoke('findNotes', { query });
+  expect(await find('*')).toEqual([1, 2, 3]);
+  expect(await find('tag:biology')).toEqual([1, 3]);
+  expect(await find('"tag:Biology::Cell"')).toEqual([1]);
+  expect(await find('tag:Bio')).toEqual([]);
+  expect(await find('tag:Bio*')).toEqual([1, 3]);
+  expect(await find('tag:CHEMISTR_')).toEqual([1, 2]);
+  expect(await find('tag:a\\_b')).toEqual([2]);
+  expect(await find('"tag:a\\*b"')).toEqual([3]);
+  expect(await find('tag:a.b')).toEqual([]);
+  await expect(find('deck:Default')).rejects.toThrow('AnkiConnect findNotes failed: Unsupported search: deck:Default');
+  db.close();
+});
+
+test('tag edits compare case-insensitively', async () => {
+  const { db, client } = open();
+  expect(await client.invoke('notesInfo', { notes: [2, 1] })).toEqual([
+    { noteId: 1, tags: ['Biology::Cell', 'Chemistry'] },
+    { noteId: 2, tags: ['chemistry', 'a_b'] },
+  ]);
+
+  await client.invoke('addTags', { notes: [1, 2], tags: 'CHEMISTRY new' });
+  await client.invoke('removeTags', { notes: [1, 3], tags: 'biology' }); // with its children
+  await client.invoke('replaceTagsInAllNotes', { tag_to_replace: 'Chemistry', replace_with_tag: 'Chem' });
+  expect(readNotes(db)).toEqual([
+    { id: 1, tags: ['Chem', 'new'] },
+    { id: 2, tags: ['Chem', 'a_b', 'new'] },
+    { id: 3, tags: ['a*b'] },
+  ]);
+  expect(await client.invoke('getTags', {})).toEqual(['Chem', 'a*b', 'a_b', 'new']);
+  db.close();
+});
+
+test('unsupported requests return errors', async () => {
+  const { db } = open();
+  const { fetch } = mockAnkiConnect(db);
+  const post = async (body: object) => (await fetch('', { method: 'POST', body: JSON.stringify(body) })).json();
+  expect(await post({ action: 'sync', version: 6 })).toEqual({ result: null, error: 'Unsupported action: sync' });
+  expect(await post({ action: 'getTags', version: 5 })).toEqual({ result: null, error: 'Unsupported version: 5' });
+  db.close();
+});
@@ -0,0 +1,111 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import type { Database } from 'sql.js';
+import { joinTags, readNotes, type AnkiNote } from '#anki/collection';
+import type { AnkiConnectAction, AnkiConnectActions } from '#anki/connect';
+
+// Anki compares tags case-insensitively
+function sameTag(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Anki removes a tag with its children
+function tagOrChild(tag: string, parent: string): boolean {
+  return sameTag(tag, parent) || tag.toLowerCase().startsWith(parent.toLowerCase() + '::');
+}
+
+// Subset of the Anki search syntax: '*' (all notes), or a single 'tag:' term, optionally quoted
+// The tag may use '*' (any run) and '_' (any character) wildcards, with '\' escaping; it also matches child tags
+function parseQuery(query: string): (note: AnkiNote) => boolean {
+  query = query.trim();
+  if (query === '*') {
+    return () => true;
+  }
+  const term = /^"(?<quoted>(?:[^"\\]|\\.)*)"$/v.exec(query)?.groups!.quoted ?? query;
+  if (!term.startsWith('tag:')) {
+    throw new Error(`Unsupported search: ${query}`);
+  }
+
+  const pattern = Array.from(term.slice(4).matchAll(/\\(?<escaped>.)|(?<char>.)/gsv), ({ groups }) => {
+    if (groups!.char === '*') {
+      return '.*';
+    } else if (groups!.char === '_') {
+      return '.';
+    }
+    return (groups!.escaped ?? groups!.char).replace(/[\\^$.*+?\(\)\[\]\{\}\|\/]/v, '\\$&');
+  }).join('');
+  const re = new RegExp(`^(?:${pattern})(?:::.*)?$`, 'isv');
+  return ({ tags }) => tags.some((tag) => re.test(tag));
+}
+
+export interface MockAnkiConnect {
+  fetch: typeof fetch, // see AnkiConnectOptions
+  requests: { action: string, params: unknown }[], // all received so far, in order
+}
+
+type Handlers = { [A in AnkiConnectAction]: (params: AnkiConnectActions[A]['params']) => AnkiConnectActions[A]['result'] };
+
+// In-process stand-in for the AnkiConnect server over a collection database, for testing offline
+// Writes go to the database (which the caller still owns), so its notes can be checked with readNotes()
+// Like AnkiConnect, failures return HTTP 200 with a non-null error
+export function mockAnkiConnect(db: Database): MockAnkiConnect {
+  const requests: MockAnkiConnect['requests'] = new Array();
+
+  function update(ids: number[], edit: (tags: string[]) => string[]) {
+    for (const { id, tags } of readNotes(db)) {
+      if (ids.includes(id)) {
+        db.run('UPDATE notes SET tags = ? WHERE id = ?', [joinTags(edit(tags)), id]);
+      }
+    }
+  }
+
+  const handlers: Handlers = {
+    findNotes: ({ query }) => readNotes(db).filter(parseQuery(query)).map(({ id }) => id),
+    notesInfo: ({ notes }) => readNotes(db).filter(({ id }) => notes.includes(id)).map(({ id, tags }) => ({ noteId: id, tags })),
+    addTags: ({ notes, tags }) => {
+      update(notes, (old) => old.concat(tags.split(' ').filter((tag) => tag.length && !old.some((t) => sameTag(t, tag)))));
+      return null;
+    },
+    removeTags: ({ notes, tags }) => {
+      const removed = tags.split(' ');
+      update(notes, (old) => old.filter((tag) => !removed.some((t) => tagOrChild(tag, t))));
+      return null;
+    },
+    replaceTagsInAllNotes: ({ tag_to_replace, replace_with_tag }) => {
+      update(readNotes(db).map(({ id }) => id), (old) => old.map((tag) => sameTag(tag, tag_to_replace) ? replace_with_tag : tag));
+      return null;
+    },
+    getTags: () => Array.from(new Set(readNotes(db).flatMap(({ tags }) => tags))).sort(),
+  };
+
+  function isAction(action: string): action is AnkiConnectAction {
+    return Object.hasOwn(handlers, action);
+  }
+
+  // Handler looked up by its action, so its params and result types follow the action
+  function handle<A extends AnkiConnectAction>(action: A, params: AnkiConnectActions[A]['params']): AnkiConnectActions[A]['result'] {
+    return handlers[action](params);
+  }
+
+  async function fetch_(_input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    const { action, version, params = {} }: { action: string, version: unknown, params?: unknown } = JSON.parse(String(init?.body));
+    requests.push({ action, params });
+
+    let result: unknown = null, error: string | null = null;
+    try {
+      if (version !== 6) {
+        throw new Error(`Unsupported version: ${version}`);
+      } else if (!isAction(action)) {
+        throw new Error(`Unsupported action: ${action}`);
+      }
+      // params as sent by the client, which checks them against the action (see AnkiConnect.invoke())
+      result = handle(action, params as AnkiConnectActions[typeof action]['params']);
+    } catch (e) {
+      error = (e as Error).message;
+    }
+    return new Response(JSON.stringify({ result, error }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  return { fetch: fetch_, requests };
+}
@@ -0,0 +1,60 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import { strToU8, unzipSync } from 'fflate';
+import { openCollection, readNotes } from '#anki/collection';
+import { makeApkg, makeCollection, SQL } from '#anki/collection.fixture';
+import { remapApkg } from '#anki/export';
+import { compileMapping } from '#tags/apply';
+import { parseDefault } from '#tags/parseLine';
+
+const apkg = makeApkg(makeCollection([
+  { id: 1, tags: ' Biology::Cell Chemistry ' },
+  { id: 2, tags: ' Chemistry ' },
+  { id: 3, tags: ' plants Biology::Botany ' },
+]), 'collection.anki21', { '0': strToU8('image') });
+
+const rules = compileMapping(parseDefault(`
+Biology
+  Cell Cytology
+  Botany Biology::Plants
+Plants Biology::Plants
+`));
+
+test('remapped export rewrites changed notes and reports each', () => {
+  const original = apkg.slice();
+  const { apkg: out, report } = remapApkg(SQL, apkg, rules, { mod: 1234 });
+  expect(apkg).toEqual(original);
+
+  expect(report).toEqual([
+    { id: 1, from: ['Biology::Cell', 'Chemistry'], to: ['Cytology', 'Chemistry'], changes: [
+      { from: 'Biology::Cell', to: ['Cytology'], linum: 3 },
+    ] },
+    // tags match rules in any case, as in Anki
+    { id: 3, from: ['plants', 'Biology::Botany'], to: ['Biology::Plants'], changes: [
+      { from: 'plants', to: ['Biology::Plants'], linum: 5 },
+      { from: 'Biology::Botany', to: ['Biology::Plants'], linum: 4 },
+    ] },
+  ]);
+
+  const files = unzipSync(out);
+  expect(Object.keys(files).sort()).toEqual(['0', 'collection.anki21', 'media']);
+  expect(files['0']).toEqual(strToU8('image'));
+  const db = openCollection(SQL, out);
+  expect(readNotes(db)).toEqual([
+    { id: 1, tags: ['Cytology', 'Chemistry'] },
+    { id: 2, tags: ['Chemistry'] },
+    { id: 3, tags: ['Biology::Plants'] },
+  ]);
+  expect(db.exec('SELECT id, mod, usn FROM notes ORDER BY id')[0].values).toEqual([[1, 1234, -1], [2, 0, 0], [3, 1234, -1]]);
+  db.close();
+});
+
+test('export without changes keeps every note', () => {
+  const { apkg: out, report } = remapApkg(SQL, apkg, new Map());
+  expect(report).toEqual([]);
+  const db = openCollection(SQL, out);
+  expect(db.exec('SELECT count(*) FROM notes WHERE usn = -1')[0].values).toEqual([[0]]);
+  db.close();
+});
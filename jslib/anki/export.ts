@@ -0,0 +1,47 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { zipSync } from 'fflate';
+import type { SqlJsStatic } from 'sql.js';
+import { joinTags, openCollection, readNotes, unpackApkg } from '#anki/collection';
+import { applyMapping, type TagChange, type TagRules } from '#tags/apply';
+
+export interface NoteChange {
+  id: number,
+  from: string[], // old tags
+  to: string[], // new tags
+  changes: TagChange[], // each renamed tag, with the mapping line causing it
+}
+
+export interface AnkiExport {
+  apkg: Uint8Array,
+  report: NoteChange[], // only notes whose tags changed, by increasing id
+}
+
+export interface ExportOptions {
+  mod?: number, // modification time (epoch seconds) for changed notes, so Anki imports them as updates; default now
+}
+
+// Rewrites the tags of every note in an .apkg by the rules (see compileMapping()), into a new .apkg
+// The input bytes are not modified; all other files (e.g. media) are copied as-is
+export function remapApkg(SQL: SqlJsStatic, bytes: Uint8Array, rules: TagRules, options: ExportOptions = {}): AnkiExport {
+  const { mod = Math.floor(Date.now() / 1000) } = options;
+  const { entry, files } = unpackApkg(bytes);
+  const db = openCollection(SQL, files[entry]);
+
+  try {
+    const report: NoteChange[] = new Array();
+    for (const { id, tags } of readNotes(db)) {
+      const { tags: to, changes } = applyMapping(rules, tags);
+      if (to.length !== tags.length || to.some((tag, i) => tag !== tags[i])) {
+        // usn -1 marks the note as changed since last sync
+        db.run('UPDATE notes SET tags = ?, mod = ?, usn = -1 WHERE id = ?', [joinTags(to), mod, id]);
+        report.push({ id, from: tags, to, changes });
+      }
+    }
+
+    return { apkg: zipSync({ ...files, [entry]: db.export() }), report };
+  } finally {
+    db.close();
+  }
+}
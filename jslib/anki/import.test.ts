@@ -0,0 +1,46 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { importCollection, skeletonMapping } from '#anki/import';
+import { makeApkg, makeCollection, SQL } from '#anki/collection.fixture';
+import { parseDefault } from '#tags/parseLine';
+import { resolve } from '#tags/resolve';
+
+const collection = makeCollection([
+  { id: 10, tags: ' Biology::Cell Chemistry ' },
+  { id: 20, tags: ' Biology::Cell::Mitosis Biology::Plant ' },
+  { id: 30, tags: '' },
+]);
+
+test('import gives per-note tags and distinct sorted tags', () => {
+  const expected = {
+    notes: [
+      { id: 10, tags: ['Biology::Cell', 'Chemistry'] },
+      { id: 20, tags: ['Biology::Cell::Mitosis', 'Biology::Plant'] },
+      { id: 30, tags: [] },
+    ],
+    tags: ['Biology::Cell', 'Biology::Cell::Mitosis', 'Biology::Plant', 'Chemistry'],
+  };
+  expect(importCollection(SQL, collection)).toEqual(expected);
+  expect(importCollection(SQL, makeApkg(collection))).toEqual(expected);
+});
+
+test('skeleton nests hierarchy levels, listing ancestors', () => {
+  const { tags } = importCollection(SQL, collection);
+  expect(skeletonMapping(tags)).toBe('Biology\n  Cell\n    Mitosis\n  Plant\nChemistry\n');
+  expect(skeletonMapping(['a-x::z', 'a::y', 'a::::b', 'a/c'], { separator: '::', indent: 'tab' })).toBe('a\n\tb\n\ty\na-x\n\tz\na/c\n');
+  expect(skeletonMapping(['a/c'], { separator: '/' })).toBe('a\n  c\n');
+});
+
+test('skeleton parses back to every tag and its ancestors', () => {
+  fc.assert(
+    fc.property(fc.array(fc.array(fc.string({ unit: fc.constantFrom('a', 'b', 'é', '_'), minLength: 1 }), { minLength: 1, maxLength: 4 })), (paths) => {
+      const tags = paths.map((path) => path.join('::'));
+      const resolved = new Set(Array.from(resolve(parseDefault(skeletonMapping(tags))), ({ tag }) => tag));
+      const expected = new Set(paths.flatMap((path) => path.map((_, i) => path.slice(0, i + 1).join('::'))));
+      expect(resolved).toEqual(expected);
+    }),
+  );
+});
@@ -0,0 +1,64 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import type { SqlJsStatic } from 'sql.js';
+import { openCollection, readNotes, type AnkiNote } from '#anki/collection';
+import { format, type FormatNode, type FormatOptions } from '#tags/format';
+
+export interface AnkiImport {
+  notes: AnkiNote[],
+  tags: string[], // distinct tags over all notes, sorted
+}
+
+// Reads the notes and tags of a collection or .apkg, see openCollection()
+export function importCollection(SQL: SqlJsStatic, bytes: Uint8Array): AnkiImport {
+  const db = openCollection(SQL, bytes);
+  try {
+    const notes = readNotes(db);
+    const tags = Array.from(new Set(notes.flatMap(({ tags }) => tags))).sort();
+    return { notes, tags };
+  } finally {
+    db.close();
+  }
+}
+
+// Component-wise, so siblings sort by label
+function comparePaths(a: string[], b: string[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+  return a.length - b.length;
+}
+
+export interface SkeletonOptions extends FormatOptions {
+  separator?: string, // hierarchical tag separator; default '::'
+}
+
+// Mapping file listing every tag without mappings, with each hierarchy level as a nesting level
+// e.g. 'Biology::Cell' gives 'Biology' with a nested 'Cell'; ancestors which are not tags themselves are still listed
+// Siblings are sorted; empty levels (e.g. from 'a::::b') are dropped
+export function skeletonMapping(tags: Iterable<string>, options: SkeletonOptions = {}): string {
+  const { separator = '::', ...formatOptions } = options;
+  const roots: FormatNode[] = new Array();
+  // by fully qualified tag of each node so far
+  const nodes = new Map<string, FormatNode>();
+
+  const paths = Array.from(new Set(tags), (tag) => tag.split(separator).filter((label) => label.length)).sort(comparePaths);
+  for (const labels of paths) {
+    let siblings = roots, path: string | null = null;
+    for (const label of labels) {
+      path = path !== null ? path + separator + label : label;
+      let node = nodes.get(path);
+      if (node === undefined) {
+        node = { label, mapping: null, children: [] };
+        nodes.set(path, node);
+        siblings.push(node);
+      }
+      siblings = node.children;
+    }
+  }
+
+  return format(roots, formatOptions);
+}
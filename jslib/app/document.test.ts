@@ -0,0 +1,81 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { editDocument, openDocument, overlay, reopenDocument, savedText, textEdit } from '#app/document';
+import { parseFull } from '#tags/incremental';
+
+const arbText = fc.string({ unit: fc.constantFrom('a', 'b', ' ', '\t', '\n', '\r\n', '#', '"'), maxLength: 30 });
+
+test('text edit replaces between common prefix and suffix', () => {
+  expect(textEdit('abc', 'abc')).toEqual({ offset: 3, deleted: 0, inserted: '' });
+  expect(textEdit('a b\nc', 'a x\nc')).toEqual({ offset: 2, deleted: 1, inserted: 'x' });
+  expect(textEdit('aa', 'aaa')).toEqual({ offset: 2, deleted: 0, inserted: 'a' });
+  fc.assert(
+    fc.property(arbText, arbText, (before, after) => {
+      const { offset, deleted, inserted } = textEdit(before, after);
+      expect(before.substring(0, offset) + inserted + before.substring(offset + deleted)).toBe(after);
+    }),
+  );
+});
+
+test('edited document matches a freshly opened one', () => {
+  const doc = openDocument('a\n b\n');
+  expect(editDocument(doc, 'a\n b\n')).toBe(doc);
+  expect(editDocument(doc, 'a\n b\n  c\n').roots[0].children[0].children[0].path).toEqual(['a', 'b', 'c']);
+  expect(openDocument('"a\n b\nc\n', { quotes: true }).roots.map(({ label }) => label)).toEqual(['c']);
+  fc.assert(
+    fc.property(arbText, fc.array(arbText, { maxLength: 5 }), fc.boolean(), (str, edits, quotes) => {
+      let doc = openDocument(str, { comments: true, quotes });
+      for (const next of edits) {
+        doc = editDocument(doc, next);
+        expect(doc).toEqual({ ...openDocument(next, { comments: true, quotes }), newline: doc.newline });
+      }
+    }),
+  );
+});
+
+test('CRLF files open as a textarea holds them, and save as they were', () => {
+  const doc = openDocument('a\r\n\tb\r\n  c\r\n', { quotes: true });
+  expect(doc.state.str).toBe('a\n\tb\n  c\n');
+  expect(doc.newline).toBe('\r\n');
+  // spans are into the text the textarea holds, so line up with it
+  expect(overlay(doc.state.str, doc.state.diagnostics)).toEqual([
+    { tag: 'text', text: 'a\n\tb\n' },
+    { tag: 'error', text: '  ' },
+    { tag: 'text', text: 'c' },
+    { tag: 'message', text: 'Inconsistent whitespace at nesting level 2' },
+    { tag: 'text', text: '\n' },
+  ]);
+
+  const edited = reopenDocument(editDocument(doc, 'a\n\tb\n\tc\n'), { quotes: false });
+  expect(edited.state.diagnostics).toEqual([]);
+  expect(savedText(edited)).toBe('a\r\n\tb\r\n\tc\r\n');
+  expect(editDocument(doc, 'a\r\n\tb\r\n  c\r\n')).toBe(doc);
+  expect(openDocument('a\rb\n').newline).toBe('\r');
+  expect(savedText(openDocument('a'))).toBe('a');
+});
+
+test('overlay marks errors and appends messages at the end of their line', () => {
+  const str = 'a\n\tb\n  c\r\nd "e\n';
+  const { diagnostics } = parseFull(str, { quotes: true });
+  expect(overlay(str, diagnostics)).toEqual([
+    { tag: 'text', text: 'a\n\tb\n' },
+    { tag: 'error', text: '  ' },
+    { tag: 'text', text: 'c\r' },
+    { tag: 'message', text: 'Inconsistent whitespace at nesting level 2' },
+    { tag: 'text', text: '\nd ' },
+    { tag: 'error', text: '"e' },
+    { tag: 'message', text: 'Unterminated quoted string' },
+    { tag: 'text', text: '\n' },
+  ]);
+  expect(overlay('a', [])).toEqual([{ tag: 'text', text: 'a' }]);
+
+  fc.assert(
+    fc.property(arbText, (str) => {
+      const parts = overlay(str, parseFull(str, { comments: true, quotes: true }).diagnostics);
+      expect(parts.filter(({ tag }) => tag !== 'message').map(({ text }) => text).join('')).toBe(str);
+    }),
+  );
+});
@@ -0,0 +1,93 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { parseFull, reparse, type ParseState, type TextEdit } from '#tags/incremental';
+import type { LexOptions } from '#tags/lexWsOnly';
+import { bareMessage, type TagDiagnostic } from '#tags/parseLine';
+import { buildTree, nestable, type TagNode } from '#tags/tree';
+
+// Editor contents with their recovering parse, re-parsed incrementally on each change
+export interface EditorDocument {
+  state: ParseState, // of the text as a <textarea> holds it, see openDocument()
+  roots: TagNode[], // tree of the valid mappings, for the preview
+  newline: string, // line break of the file as opened, for saving
+}
+
+// Piece of the editor text as drawn behind it: plain, marked as an error, or an error message after the end of a line
+export interface OverlayPart {
+  tag: 'text' | 'error' | 'message',
+  text: string,
+}
+
+// Single edit turning before into after, replacing the span between their longest common prefix and suffix
+export function textEdit(before: string, after: string): TextEdit {
+  const common = Math.min(before.length, after.length);
+  let prefix = 0, suffix = 0;
+  while (prefix < common && before[prefix] === after[prefix]) {
+    prefix += 1;
+  }
+  while (suffix < common - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+    suffix += 1;
+  }
+  return { offset: prefix, deleted: before.length - prefix - suffix, inserted: after.substring(prefix, after.length - suffix) };
+}
+
+function withTree(state: ParseState, newline: string): EditorDocument {
+  return { state, roots: buildTree(nestable(state.mappings)), newline };
+}
+
+// A <textarea> holds '\r\n' and '\r' as '\n', so spans must be into the text with them replaced
+function textareaValue(str: string): string {
+  return str.replace(/\r\n?/gv, '\n');
+}
+
+// Opens a file as a <textarea> holds it, keeping its first line break (else '\n') to save it with, see savedText()
+export function openDocument(str: string, options: LexOptions = {}): EditorDocument {
+  return withTree(parseFull(textareaValue(str), options), /\r\n?|\n/v.exec(str)?.[0] ?? '\n');
+}
+
+// Parses the document again with other options
+export function reopenDocument(doc: EditorDocument, options: LexOptions): EditorDocument {
+  return withTree(parseFull(doc.state.str, options), doc.newline);
+}
+
+export function editDocument(doc: EditorDocument, str: string): EditorDocument {
+  const value = textareaValue(str);
+  return value === doc.state.str ? doc : withTree(reparse(doc.state, textEdit(doc.state.str, value)), doc.newline);
+}
+
+// Text of the document with the line breaks of the file as opened
+export function savedText(doc: EditorDocument): string {
+  return doc.state.str.replaceAll('\n', doc.newline);
+}
+
+// Splits str into parts marking the span of each diagnostic, with its message after its line
+// Lines are as displayed by a <textarea>, i.e. split at '\n' only
+export function overlay(str: string, diagnostics: Iterable<TagDiagnostic>): OverlayPart[] {
+  const parts: OverlayPart[] = new Array();
+  function push(tag: OverlayPart['tag'], start: number, end: number) {
+    if (start < end) {
+      parts.push({ tag, text: str.substring(start, end) });
+    }
+  }
+
+  const sorted = Array.from(diagnostics).sort((a, b) => a.span.start - b.span.start);
+  let offset = 0;
+  for (let i = 0; i < sorted.length;) {
+    const newline = str.indexOf('\n', sorted[i].span.start), lineEnd = newline < 0 ? str.length : newline;
+    const messages: string[] = new Array();
+    for (; i < sorted.length && sorted[i].span.start <= lineEnd; i++) {
+      const { span, message } = sorted[i];
+      const start = Math.max(span.start, offset), end = Math.min(Math.max(span.end, start), lineEnd);
+      push('text', offset, start);
+      push('error', start, end);
+      offset = end;
+      messages.push(bareMessage(message));
+    }
+    push('text', offset, lineEnd);
+    parts.push({ tag: 'message', text: messages.join('; ') });
+    offset = lineEnd;
+  }
+  push('text', offset, str.length);
+  return parts;
+}
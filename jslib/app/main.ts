@@ -0,0 +1,10 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+// Browser entry point, see index.html
+/* v8 ignore start */
+import { mount } from 'svelte';
+import App from '#app/App.svelte';
+
+export default mount(App, { target: document.getElementById('app')! });
+/* v8 ignore stop */
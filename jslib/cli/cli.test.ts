@@ -0,0 +1,184 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import { run } from '#cli/cli';
+
+// In-memory files, capturing output
+async function cli(argv: string[], files: Record<string, string> = {}, stdin: string = '') {
+  let stdout = '', stderr = '';
+  const code = await run(argv, {
+    readFile: async (path) => {
+      if (!Object.hasOwn(files, path)) {
+        throw Object.assign(new Error(`ENOENT: no such file or directory, open '${path}'`), { code: 'ENOENT', path });
+      }
+      return files[path];
+    },
+    writeFile: async (path, text) => { files[path] = text; },
+    readStdin: async () => stdin,
+    stdout: (text) => { stdout += text; },
+    stderr: (text) => { stderr += text; },
+  });
+  return { code, stdout, stderr, files };
+}
+
+const mapping = 'Biology\n  Cell Cytology\n  Botany Biology::Plants\nPlants Biology::Plants\n';
+
+test('check prints problems in compiler style', async () => {
+  const files = { 'a.txt': 'a\n  b x \n c\n', 'b.txt': mapping, 'c.txt': 'a b\nb a\n' };
+  expect(await cli(['check', 'a.txt', 'b.txt', 'c.txt'], files)).toMatchObject({ code: 1, stdout: '', stderr: [
+    'a.txt:2:6: warning: Trailing whitespace [TrailingWhitespace]\n',
+    'a.txt:3:1: error: Inconsistent whitespace at nesting level 2 [InconsistentWhitespace]\n',
+    'b.txt:4:8: info: Also mapped to \'Biology::Plants\' at line 3 [DuplicateTarget]\n',
+    'c.txt:1:3: error: Mapping cycle between a, b [MappingCycle]\n',
+  ].join('') });
+  expect(await cli(['check', 'd.txt'], { 'd.txt': 'a x\nb x \n' })).toMatchObject({ code: 0, stderr: [
+    'd.txt:2:3: info: Also mapped to \'x\' at line 1 [DuplicateTarget]\n',
+    'd.txt:2:4: warning: Trailing whitespace [TrailingWhitespace]\n',
+  ].join('') });
+  // columns in each unit, also for errors found after parsing
+  const emoji = { 'e.txt': '\u{1F600} x \n\u{1F600}e\u0301 "y z"\n' };
+  expect(JSON.parse((await cli(['check', '--json', '--quotes', 'e.txt'], emoji)).stdout).map(({ line, columns }: any) => [line, columns])).toEqual([
+    [1, { utf16: 5, codePoint: 4, grapheme: 4 }],
+    [2, { utf16: 6, codePoint: 5, grapheme: 4 }],
+  ]);
+  // reported by compiling, if not by lint
+  expect(await cli(['check', 'c.txt', '--rule', 'MappingCycle=off'], files)).toMatchObject({ code: 1,
+    stderr: 'c.txt:1:1: error: Mapping cycle between a, b (lines 1, 2) [MappingCycle]\n',
+  });
+
+  expect(await cli(['check', 'b.txt', '--rule', 'DuplicateTarget=error', '--json'], files)).toEqual({ code: 1, stderr: '', files,
+    stdout: '[{"file":"b.txt","line":4,"column":8,"columns":{"utf16":8,"codePoint":8,"grapheme":8},"severity":"error","code":"DuplicateTarget","message":"Also mapped to \'Biology::Plants\' at line 3"}]\n',
+  });
+  expect(await cli(['check', 'b.txt'], files)).toMatchObject({ code: 0 });
+});
+
+test('fmt prints, checks or rewrites canonical format', async () => {
+  const files = { 'a.txt': 'a   x\n\tb # c\n', 'b.txt': 'a x\n  b\n', 'bad.txt': ' a\n' };
+  expect(await cli(['fmt', 'a.txt', '--comments'], files)).toMatchObject({ code: 0, stdout: 'a x\n  b # c\n' });
+  expect(await cli(['fmt', 'a.txt', '--indent', 'tab'], files)).toMatchObject({ code: 0, stdout: 'a x\n\tb # c\n' });
+  expect(await cli(['fmt', '--json', 'b.txt'], files)).toMatchObject({ code: 0, stdout: '[{"file":"b.txt","formatted":true,"text":"a x\\n  b\\n"}]\n' });
+
+  expect(await cli(['fmt', '--check', 'a.txt', 'b.txt', 'bad.txt'], files)).toMatchObject({ code: 1, stdout: '',
+    stderr: 'a.txt: not formatted\nbad.txt:1:1: error: First nonempty line must be a top-level tag (with no leading whitespace) [FirstLineNotTopLevel]\n',
+  });
+  expect(JSON.parse((await cli(['fmt', '--check', '--json', 'a.txt', 'bad.txt'], files)).stdout)).toEqual([
+    { file: 'a.txt', formatted: false },
+    { file: 'bad.txt', formatted: false, problems: [expect.objectContaining({ code: 'FirstLineNotTopLevel' })] },
+  ]);
+
+  const { code, stdout } = await cli(['fmt', '--write', '--comments', 'a.txt', 'b.txt'], files);
+  expect([code, stdout, files['a.txt']]).toEqual([0, '', 'a x\n  b # c\n']);
+
+  // no indent would flatten the hierarchy
+  expect(await cli(['fmt', '--write', '--indent', '0', 'b.txt'], files)).toMatchObject({ code: 2, stderr: expect.stringMatching(/^ankiss: Invalid --indent or --separator\n/v) });
+  expect(files['b.txt']).toBe('a x\n  b\n');
+});
+
+test('tree prints resolved tags with their targets', async () => {
+  const files = { 'a.txt': mapping + 'Biology\n  Cell\n', 'bad.txt': 'a::b\n' };
+  expect(await cli(['tree', 'a.txt'], files)).toMatchObject({ code: 0,
+    stdout: 'Biology\n  Biology::Cell -> Cytology\n  Biology::Botany -> Biology::Plants\nPlants -> Biology::Plants\n',
+  });
+  expect(JSON.parse((await cli(['tree', '--json', '--separator', '/', 'a.txt'], files)).stdout)[1])
+    .toEqual({ tag: 'Biology/Cell', nesting: 1, linum: 2, targets: ['Cytology'] });
+  expect(await cli(['tree', 'bad.txt'], files)).toMatchObject({ code: 1,
+    stderr: 'bad.txt:1:1: error: Label contains hierarchy separator \'::\' [LabelContainsSeparator]\n',
+  });
+});
+
+test('check, tree and apply follow includes', async () => {
+  const files = {
+    'main.txt': 'Biology\n  @include parts/cells.txt\n@include /abs.txt\n',
+    'parts/cells.txt': 'Cell Cytology\n@include bad.txt\n',
+    'parts/bad.txt': 'a\n  b\n c\n',
+    '/abs.txt': 'Plants Biology::Botany\n',
+  };
+  expect(await cli(['check', 'main.txt'], files)).toMatchObject({ code: 1,
+    stderr: 'parts/bad.txt:3:1: error: Inconsistent whitespace at nesting level 2 [InconsistentWhitespace] (included from main.txt:2, parts/cells.txt:2)\n',
+  });
+  expect(JSON.parse((await cli(['tree', '--json', 'main.txt'], files)).stdout)[0]).toEqual({
+    file: 'parts/bad.txt', line: 3, column: 1, columns: { utf16: 1, codePoint: 1, grapheme: 1 }, severity: 'error', code: 'InconsistentWhitespace', message: 'Inconsistent whitespace at nesting level 2',
+    includedFrom: ['main.txt:2', 'parts/cells.txt:2'],
+  });
+
+  files['parts/bad.txt'] = 'Cell\n';
+  expect(await cli(['check', 'main.txt'], files)).toMatchObject({ code: 1,
+    stderr: 'parts/bad.txt:1:1: error: Duplicate of label at line 1 of parts/cells.txt [DuplicateLabel] (included from main.txt:2, parts/cells.txt:2)\n',
+  });
+  expect(await cli(['tree', 'main.txt'], files)).toMatchObject({ code: 0,
+    stdout: 'Biology\n  Biology::Cell -> Cytology\nPlants -> Biology::Botany\n',
+  });
+  expect(await cli(['apply', 'main.txt'], files, 'Biology::Cell Plants\n')).toMatchObject({ code: 0, stdout: 'Cytology Biology::Botany\n' });
+  expect(await cli(['check', 'main.txt'], { 'main.txt': '@include a.txt\n' })).toMatchObject({ code: 1,
+    stderr: 'main.txt:1:10: error: Cannot read \'a.txt\': ENOENT: no such file or directory, open \'a.txt\' [InvalidInclude]\n',
+  });
+});
+
+test('apply rewrites tags from stdin or a CSV', async () => {
+  const files = {
+    'a.txt': mapping, 'notes.csv': 'id,Tags\n1,Biology::Cell Chemistry\n2,"Plants Biology::Botany"\n3\n', 'bad.txt': ' a\n', 'bad.csv': '"tags\n',
+  };
+  expect(await cli(['apply', 'a.txt'], files, 'Biology::Cell x\n\nPlants\r\nBiology')).toMatchObject({ code: 0,
+    stdout: 'Cytology x\n\nBiology::Plants\nBiology\n',
+  });
+  expect(await cli(['apply', 'a.txt', 'notes.csv'], files)).toMatchObject({ code: 0,
+    stdout: 'id,Tags\n1,Cytology Chemistry\n2,Biology::Plants\n3,\n',
+  });
+  expect(JSON.parse((await cli(['apply', 'a.txt', '--json'], files, 'Plants\n')).stdout)).toEqual([
+    { row: 1, from: ['Plants'], to: ['Biology::Plants'], changes: [{ from: 'Plants', to: ['Biology::Plants'], linum: 4 }] },
+  ]);
+  expect(await cli(['apply', 'bad.txt'], files)).toMatchObject({ code: 1 });
+  expect(await cli(['apply', 'a.txt', 'notes.csv', '--column', 'note'], files)).toMatchObject({ code: 2 });
+  expect((await cli(['apply', 'a.txt', 'bad.txt'], files)).stderr).toMatch(/^ankiss: bad.txt: no column 'tags'\n/v);
+  expect((await cli(['apply', 'a.txt', 'bad.csv'], files)).stderr).toMatch(/^ankiss: bad.csv: Malformed CSV field at offset 0\n/v);
+});
+
+test('labels map to several tags, split at whitespace or --target-separator', async () => {
+  const files = { 'a.txt': 'Cell Cytology Cells\nBotany Plants Cytology\n' };
+  expect(await cli(['apply', 'a.txt'], files, 'Cell x\n')).toMatchObject({ code: 0, stdout: 'Cytology Cells x\n' });
+  expect(await cli(['check', 'a.txt'], files)).toMatchObject({ code: 0,
+    stderr: 'a.txt:2:15: info: Also mapped to \'Cytology\' at line 1 [DuplicateTarget]\n',
+  });
+  expect(await cli(['tree', 'a.txt', '--target-separator', ','], { 'a.txt': 'Cell Cytology,Cells\n' })).toMatchObject({ code: 0,
+    stdout: 'Cell -> Cytology Cells\n',
+  });
+  expect(await cli(['apply', 'a.txt', '--target-separator', ','], files)).toMatchObject({ code: 1,
+    stderr: 'a.txt:1:6: error: Target \'Cytology Cells\' contains character U+0020 not allowed in Anki tags [InvalidLabelCharacter]\n',
+  });
+  expect(await cli(['apply', 'a.txt', '--target-separator', ' '], files)).toMatchObject({ code: 2 });
+});
+
+test('convert prints mapping files as JSON or YAML, and back', async () => {
+  const files = { 'a.txt': 'a x\n  b\nc\n', 'dup.txt': 'a\na\n', 'bad.txt': ' a\n', 'a.yml': 'a: [x, {"b c": null}]\n', 'bad.json': '[]' };
+  expect(await cli(['convert', 'a.txt'], files)).toMatchObject({ code: 0, stdout: '{\n  "a": ["x", {\n    "b": null\n  }],\n  "c": null\n}\n' });
+  expect(await cli(['convert', '--to', 'yaml', 'a.txt'], files)).toMatchObject({ code: 0, stdout: 'a:\n  - x\n  - b: null\nc: null\n' });
+  expect(await cli(['convert', '--quotes', '--indent', 'tab', 'a.yml'], files)).toMatchObject({ code: 0, stdout: 'a x\n\t"b c"\n' });
+
+  expect(await cli(['convert', 'dup.txt'], files)).toMatchObject({ code: 1, stderr: 'dup.txt:2:1: error: Duplicate of label at line 1 [DuplicateLabel]\n' });
+  expect(await cli(['convert', 'bad.txt'], files)).toMatchObject({ code: 1, stderr: expect.stringMatching(/^bad.txt:1:1: error: .*\[FirstLineNotTopLevel\]\n$/v) });
+  expect(await cli(['convert', '--json', 'bad.json'], files)).toMatchObject({ code: 1, stdout: expect.stringContaining('"code":"InvalidHierarchy"') });
+});
+
+test('invalid usage exits with 2', async () => {
+  expect(await cli(['--help'])).toMatchObject({ code: 0, stdout: expect.stringMatching(/^Usage: ankiss/v) });
+  for (const argv of [[], ['frobnicate', 'a.txt'], ['check'], ['check', '--frob', 'a.txt'], ['fmt', '--indent', 'x', 'a.txt'],
+    ['check', '--rule', 'Nope=off', 'a.txt'], ['check', '--rule', 'DuplicateLabel=loud', 'a.txt'], ['tree', 'a.txt', 'b.txt'],
+    ['apply', 'a.txt', 'b.csv', 'c.csv'], ['convert', '--to', 'xml', 'a.txt'], ['convert', 'a.txt', 'b.txt']]) {
+    expect(await cli(argv, { 'a.txt': '' })).toMatchObject({ code: 2, stdout: '', stderr: expect.stringMatching(/^ankiss: .*\nUsage: /v) });
+  }
+  expect(await cli(['check', 'missing.txt'])).toMatchObject({ code: 2,
+    stderr: 'ankiss: ENOENT: no such file or directory, open \'missing.txt\'\n',
+  });
+  await expect(cli(['check', 'a.txt'], { get 'a.txt'(): string { throw new RangeError('oops'); } })).rejects.toThrowError(RangeError);
+});
+
+test('fmt and tree highlight with --color', async () => {
+  const files = { 'a.txt': 'a x # c\n  b  \n' };
+  expect(await cli(['fmt', '--color', '--comments', 'a.txt'], files)).toMatchObject({ code: 0,
+    stdout: '\x1b[1;34ma\x1b[0m \x1b[33mx\x1b[0m \x1b[2m# c\x1b[0m\n  \x1b[1;32mb\x1b[0m\n',
+  });
+  expect(await cli(['tree', '--color', 'a.txt'], { 'a.txt': 'a x\n  b\n' })).toMatchObject({ code: 0,
+    stdout: '\x1b[1;34ma\x1b[0m -> \x1b[33mx\x1b[0m\n  \x1b[1;32ma::b\x1b[0m\n',
+  });
+});
@@ -0,0 +1,428 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { dirname, isAbsolute, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { Span } from '#types';
+import { formatCsv, parseCsv } from '#cli/csv';
+import { applyMapping, compileMapping, type TagChange, type TagRules } from '#tags/apply';
+import { format } from '#tags/format';
+import { fromYaml, toJson, toYaml } from '#tags/hierarchy';
+import { highlightRuns, semanticTokens, type SemanticKind, type SemanticToken } from '#tags/highlight';
+import { parseIncludes, type FileResolver, type IncludedMapping, type IncludeResult, type IncludeSite } from '#tags/include';
+import { lex, type LexOptions } from '#tags/lexWsOnly';
+import { lintIncludes, LINT_DEFAULTS, type LintConfig, type LintRule, type LintSeverity } from '#tags/lint';
+import { bareMessage, parseCollect, TagError, type ParseResult, type TagDiagnostic } from '#tags/parseLine';
+import type { Columns } from '#tags/position';
+import { resolve } from '#tags/resolve';
+import { isTargetSeparator, splitTargets, type TargetedMapping } from '#tags/targets';
+import { buildTree } from '#tags/tree';
+
+// Everything the CLI touches outside itself, so it runs in tests without a process
+export interface CliIo {
+  readFile(path: string): Promise<string>,
+  writeFile(path: string, text: string): Promise<void>,
+  readStdin(): Promise<string>,
+  stdout(text: string): void,
+  stderr(text: string): void,
+}
+
+// Exit codes
+const OK = 0, FAILED = 1, USAGE = 2;
+
+const USAGE_TEXT = `Usage: ankiss <command> [options] <file>...
+
+Commands:
+  check <file>...          parse and lint mapping files, and the files they include
+  fmt <file>...            print mapping files in canonical format
+  tree <file>              print the resolved tag hierarchy, with included files
+  apply <file> [notes.csv] rewrite tags of each stdin line (space-separated), or of the tags column of a CSV
+  convert <file>           print a mapping file as nested JSON or YAML, or a .json/.yaml/.yml file as a mapping file
+
+A line '@include <path>' in a mapping file stands for the lines of that file (relative to the including one),
+nested at its level, in check, tree and apply.
+
+Options:
+  --json                   machine-readable output
+  --comments               '#' starts a comment
+  --quotes                 '"' quotes labels and mappings
+  --separator <sep>        hierarchical tag separator (default '::')
+  --target-separator <sep> between the tags a label maps to, e.g. ',' (default whitespace)
+  --rule <rule>=<severity> set a lint rule's severity, e.g. DuplicateTarget=off (check)
+  --check                  only report files not in canonical format (fmt)
+  --write                  rewrite files in place (fmt)
+  --indent <tab|n>         indent per nesting level (fmt, default 2)
+  --column <name>          CSV column of tags (apply, default 'tags')
+  --color                  highlight output for a terminal (fmt, tree)
+  --to <json|yaml>         output of a mapping file (convert, default json)
+`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface CliOptions {
+  json: boolean,
+  lex: LexOptions,
+  separator: string,
+  targetSeparator: string | null, // see splitTargets()
+  config: LintConfig,
+  check: boolean,
+  write: boolean,
+  indent: 'tab' | number,
+  column: string,
+  color: boolean,
+  to: 'json' | 'yaml',
+}
+
+// One problem in a file, as printed by check
+interface Problem {
+  file: string,
+  line: number,
+  column: number, // 1-based, in UTF-16 code units
+  columns: Columns, // 1-based, in each unit, as UTF-16 drifts from what an editor shows at e.g. emoji or CJK
+  severity: Exclude<LintSeverity, 'off'>,
+  code: string,
+  message: string,
+  includedFrom?: string[], // '<file>:<line>' of each include directive leading to the file, outermost first
+}
+
+function printProblems(io: CliIo, problems: Problem[], json: boolean) {
+  if (json) {
+    io.stdout(JSON.stringify(problems) + '\n');
+  } else {
+    for (const { file, line, column, severity, code, message, includedFrom } of problems) {
+      const via = includedFrom !== undefined ? ` (included from ${includedFrom.join(', ')})` : '';
+      io.stderr(`${file}:${line}:${column}: ${severity}: ${message} [${code}]${via}\n`);
+    }
+  }
+}
+
+// ANSI SGR parameters of each kind; labels cycle by nesting, so each level stands out from its parent
+const LABEL_COLORS = ['1;34', '1;32', '1;35', '1;36', '1;33'];
+const KIND_COLORS: Partial<Record<SemanticKind, string>> = { mapping: '33', comment: '2', trailing: '41', invalid: '4;31' };
+
+function paint(str: string, tokens: SemanticToken[]): string {
+  return highlightRuns(str, tokens).map(({ kind, nesting, text }) => {
+    const sgr = kind === 'label' ? LABEL_COLORS[nesting! % LABEL_COLORS.length] : kind !== null ? KIND_COLORS[kind] : undefined;
+    return sgr !== undefined ? `\x1b[${sgr}m${text}\x1b[0m` : text;
+  }).join('');
+}
+
+function parseFile(text: string, options: CliOptions): ParseResult {
+  return parseCollect(text, lex(text, 0, options.lex));
+}
+
+// Included paths are relative to the directory of the including file
+function ioResolver(io: CliIo): FileResolver {
+  return {
+    resolve: (path, from) => from === null || isAbsolute(path) ? path : join(dirname(from), path),
+    read: (file) => io.readFile(file),
+  };
+}
+
+// Parses a file with its includes, see parseIncludes()
+function parseIncluding(file: string, options: CliOptions, io: CliIo): Promise<IncludeResult> {
+  return parseIncludes(file, ioResolver(io), options.lex);
+}
+
+function startColumns({ utf16, codePoint, grapheme }: Columns<Span>): Columns {
+  return { utf16: utf16.start + 1, codePoint: codePoint.start + 1, grapheme: grapheme.start + 1 };
+}
+
+function includedFrom(chain: IncludeSite[]): Pick<Problem, 'includedFrom'> {
+  return chain.length > 1 ? { includedFrom: chain.slice(0, -1).map((site) => `${site.file}:${site.linum}`) } : {};
+}
+
+// Errors are in the file at the end of their chain of includes, if any, and have columns
+function parseErrors(file: string, { diagnostics }: { diagnostics: (TagDiagnostic & { chain?: IncludeSite[] })[] }): Problem[] {
+  return diagnostics.map(({ code, message, linum, column, columns, chain = [] }) => ({
+    file: chain.at(-1)?.file ?? file,
+    line: linum,
+    column: column.start + 1,
+    columns: startColumns(columns),
+    severity: 'error',
+    code,
+    message: bareMessage(message),
+    ...includedFrom(chain),
+  }));
+}
+
+// Mappings of a file with its includes, each split into targets in the text of its own file
+function withFileTargets(parsed: IncludeResult, options: CliOptions): (IncludedMapping & TargetedMapping)[] {
+  const targetOptions = { ...options.lex, separator: options.targetSeparator };
+  return parsed.mappings.map((mapping) => ({ ...mapping, targets: splitTargets(parsed.files.get(mapping.file)!.text, mapping, targetOptions) }));
+}
+
+// Compiles the mappings of a file without parse errors, else returns its problems
+function compileFile(file: string, parsed: IncludeResult, options: CliOptions): TagRules | Problem[] {
+  if (parsed.diagnostics.length) {
+    return parseErrors(file, parsed);
+  }
+  try {
+    return compileMapping(withFileTargets(parsed, options), options.separator);
+  } catch (e) {
+    /* v8 ignore next */ if (!(e instanceof TagError)) throw e;
+    return parseErrors(file, { diagnostics: [e] });
+  }
+}
+
+async function check(files: string[], options: CliOptions, io: CliIo): Promise<number> {
+  const problems: Problem[] = new Array();
+  for (const file of files) {
+    const parsed = await parseIncluding(file, options, io), order = Array.from(parsed.files.keys());
+    const compiled = compileFile(file, parsed, options);
+    const results = lintIncludes({ ...parsed, mappings: withFileTargets(parsed, options) }, { config: options.config, separator: options.separator });
+    // lint reports mapping cycles itself, at the mapping
+    const cycles = (options.config.MappingCycle ?? LINT_DEFAULTS.MappingCycle) !== 'off';
+    problems.push(...[
+      ...(Array.isArray(compiled) ? compiled.filter(({ code }) => !(cycles && code === 'MappingCycle')) : []),
+      ...results.map(({ rule, severity, message, linum, line, span, columns, chain }) => ({
+        file: chain.at(-1)!.file, line: linum, column: span.start - line.start + 1, columns: startColumns(columns), severity, code: rule, message: bareMessage(message),
+        ...includedFrom(chain),
+      })),
+    ].sort((a, b) => order.indexOf(a.file) - order.indexOf(b.file) || a.line - b.line || a.column - b.column));
+  }
+  printProblems(io, problems, options.json);
+  return problems.some(({ severity }) => severity === 'error') ? FAILED : OK;
+}
+
+async function fmt(files: string[], options: CliOptions, io: CliIo): Promise<number> {
+  const results: { file: string, formatted: boolean, text?: string, problems?: Problem[] }[] = new Array();
+  let status = OK;
+  for (const file of files) {
+    const text = await io.readFile(file), parsed = parseFile(text, options);
+    if (parsed.diagnostics.length) {
+      const problems = parseErrors(file, parsed);
+      results.push({ file, formatted: false, problems });
+      if (!options.json) {
+        printProblems(io, problems, false);
+      }
+      status = FAILED;
+      continue;
+    }
+
+    const formatted = format(buildTree(parsed.mappings), { indent: options.indent, ...options.lex });
+    if (options.check) {
+      results.push({ file, formatted: formatted === text });
+      if (formatted !== text) {
+        status = FAILED;
+        if (!options.json) {
+          io.stderr(`${file}: not formatted\n`);
+        }
+      }
+    } else if (options.write) {
+      results.push({ file, formatted: formatted === text });
+      if (formatted !== text) {
+        await io.writeFile(file, formatted);
+      }
+    } else {
+      results.push({ file, formatted: formatted === text, text: formatted });
+      if (!options.json) {
+        io.stdout(options.color ? paint(formatted, semanticTokens(formatted, options.lex)) : formatted);
+      }
+    }
+  }
+  if (options.json) {
+    io.stdout(JSON.stringify(results) + '\n');
+  }
+  return status;
+}
+
+async function tree([file, ...rest]: string[], options: CliOptions, io: CliIo): Promise<number> {
+  if (rest.length) {
+    throw new UsageError('tree takes one file');
+  }
+  const parsed = await parseIncluding(file, options, io);
+  const rules = compileFile(file, parsed, options);
+  if (Array.isArray(rules)) {
+    printProblems(io, rules, options.json);
+    return FAILED;
+  }
+
+  // later duplicate labels never apply, see compileMapping()
+  const seen = new Set<string>();
+  const tags = Array.from(resolve(parsed.mappings, options.separator))
+    .filter(({ tag }) => !seen.has(tag) && seen.add(tag))
+    .map(({ tag, nesting, linum }) => ({ tag, nesting, linum, targets: rules.get(tag)!.targets }));
+  if (options.json) {
+    io.stdout(JSON.stringify(tags) + '\n');
+  } else {
+    for (const { tag, nesting, targets } of tags) {
+      const indent = '  '.repeat(nesting);
+      let line = indent + tag;
+      const tokens: SemanticToken[] = [{ kind: 'label', span: { start: indent.length, end: line.length }, nesting }];
+      if (targets.length !== 1 || targets[0] !== tag) {
+        line += ' -> ';
+        tokens.push({ kind: 'mapping', span: { start: line.length, end: line.length + targets.join(' ').length }, nesting });
+        line += targets.join(' ');
+      }
+      io.stdout((options.color ? paint(line, tokens) : line) + '\n');
+    }
+  }
+  return OK;
+}
+
+async function apply([file, notes, ...rest]: string[], options: CliOptions, io: CliIo): Promise<number> {
+  if (rest.length) {
+    throw new UsageError('apply takes a mapping file and at most one CSV file');
+  }
+  const compiled = compileFile(file, await parseIncluding(file, options, io), options);
+  if (Array.isArray(compiled)) {
+    printProblems(io, compiled, options.json);
+    return FAILED;
+  }
+  const rules = compiled;
+
+  // 1-based row of each line or CSV record (after the header)
+  const report: { row: number, from: string[], to: string[], changes: TagChange[] }[] = new Array();
+  function rewrite(row: number, tags: string): string {
+    const from = tags.split(/\p{White_Space}+/v).filter((tag) => tag.length);
+    const { tags: to, changes } = applyMapping(rules, from);
+    if (changes.length) {
+      report.push({ row, from, to, changes });
+    }
+    return to.join(' ');
+  }
+
+  let output;
+  if (notes === undefined) {
+    const lines = (await io.readStdin()).split(/\r?\n/v);
+    if (lines.at(-1) === '') {
+      lines.pop();
+    }
+    output = lines.map((line, i) => rewrite(i + 1, line) + '\n').join('');
+  } else {
+    let header: string[], records: string[][];
+    try {
+      [header = [], ...records] = parseCsv(await io.readFile(notes));
+    } catch (e) {
+      throw new UsageError(`${notes}: ${(e as Error).message}`);
+    }
+    const column = header.findIndex((name) => name.toLowerCase() === options.column.toLowerCase());
+    if (column < 0) {
+      throw new UsageError(`${notes}: no column '${options.column}'`);
+    }
+    output = formatCsv([header, ...records.map((record, i) => {
+      // short records are padded to the tags column
+      const fields = Array.from({ length: Math.max(record.length, column + 1) }, (_, j) => record[j] ?? '');
+      fields[column] = rewrite(i + 1, fields[column]);
+      return fields;
+    })]);
+  }
+
+  io.stdout(options.json ? JSON.stringify(report) + '\n' : output);
+  return OK;
+}
+
+// Nested form (see fromYaml()) by file extension, as JSON is YAML
+const HIERARCHY_FILE = /\.(?:json|ya?ml)$/iv;
+
+async function convert([file, ...rest]: string[], options: CliOptions, io: CliIo): Promise<number> {
+  if (rest.length) {
+    throw new UsageError('convert takes one file');
+  }
+  const text = await io.readFile(file);
+  try {
+    if (HIERARCHY_FILE.test(file)) {
+      io.stdout(format(fromYaml(text), { indent: options.indent, ...options.lex }));
+      return OK;
+    }
+    const parsed = parseFile(text, options);
+    if (parsed.diagnostics.length) {
+      printProblems(io, parseErrors(file, parsed), options.json);
+      return FAILED;
+    }
+    const roots = buildTree(parsed.mappings);
+    io.stdout(options.to === 'yaml' ? toYaml(roots) : toJson(roots));
+    return OK;
+  } catch (e) {
+    /* v8 ignore next */ if (!(e instanceof TagError)) throw e;
+    printProblems(io, parseErrors(file, { diagnostics: [e] }), options.json);
+    return FAILED;
+  }
+}
+
+const COMMANDS: Record<string, (files: string[], options: CliOptions, io: CliIo) => Promise<number>> = { check, fmt, tree, apply, convert };
+
+function parseRule(spec: string): [LintRule, LintSeverity] {
+  const [rule, severity] = spec.split('=');
+  if (!Object.hasOwn(LINT_DEFAULTS, rule) || !['error', 'warning', 'info', 'off'].includes(severity)) {
+    throw new UsageError(`Invalid --rule ${spec}, expected <rule>=<error|warning|info|off>`);
+  }
+  return [rule as LintRule, severity as LintSeverity];
+}
+
+// Runs the CLI on arguments (without the program name), returning the exit code:
+// 0 success, 1 problems found (errors, unformatted files), 2 invalid usage or unreadable input
+export async function run(argv: string[], io: CliIo): Promise<number> {
+  try {
+    const { values, positionals: [command, ...files] } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean', default: false },
+        comments: { type: 'boolean', default: false },
+        quotes: { type: 'boolean', default: false },
+        separator: { type: 'string', default: '::' },
+        'target-separator': { type: 'string' },
+        rule: { type: 'string', multiple: true, default: [] },
+        check: { type: 'boolean', default: false },
+        write: { type: 'boolean', default: false },
+        indent: { type: 'string', default: '2' },
+        column: { type: 'string', default: 'tags' },
+        color: { type: 'boolean', default: false },
+        to: { type: 'string', default: 'json' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+    if (values.help) {
+      io.stdout(USAGE_TEXT);
+      return OK;
+    }
+    if (command === undefined || !Object.hasOwn(COMMANDS, command)) {
+      throw new UsageError(command === undefined ? 'No command' : `Unknown command '${command}'`);
+    }
+    if (!files.length) {
+      throw new UsageError(`${command} needs a file`);
+    }
+    if (!/^(?:tab|[1-9]\d*)$/v.test(values.indent) || !values.separator.length) {
+      throw new UsageError('Invalid --indent or --separator');
+    }
+    const targetSeparator = values['target-separator'] ?? null;
+    if (targetSeparator !== null && !isTargetSeparator(targetSeparator)) {
+      throw new UsageError(`Invalid --target-separator ${JSON.stringify(targetSeparator)}`);
+    }
+    if (values.to !== 'json' && values.to !== 'yaml') {
+      throw new UsageError(`Invalid --to ${values.to}, expected json or yaml`);
+    }
+
+    const options: CliOptions = {
+      json: values.json,
+      lex: { comments: values.comments, quotes: values.quotes },
+      separator: values.separator,
+      targetSeparator,
+      config: Object.fromEntries(values.rule.map(parseRule)),
+      check: values.check,
+      write: values.write,
+      indent: values.indent === 'tab' ? 'tab' : Number(values.indent),
+      column: values.column,
+      color: values.color,
+      to: values.to,
+    };
+    return await COMMANDS[command](files, options, io);
+  } catch (e) {
+    if (e instanceof UsageError || (e instanceof TypeError && 'code' in e && String(e.code).startsWith('ERR_PARSE_ARGS'))) {
+      io.stderr(`ankiss: ${e.message}\n${USAGE_TEXT}`);
+    } else if (e instanceof Error && 'code' in e && typeof e.code === 'string' && 'path' in e) {
+      // file system errors
+      io.stderr(`ankiss: ${e.message}\n`);
+    } else {
+      throw e;
+    }
+    return USAGE;
+  }
+}
@@ -0,0 +1,25 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { formatCsv, parseCsv } from '#cli/csv';
+
+test('quoted fields may contain separators, quotes and newlines', () => {
+  expect(parseCsv('id,tags\r\n1,"a ""b"",\nc"\n2,\n,')).toEqual([['id', 'tags'], ['1', 'a "b",\nc'], ['2', ''], ['', '']]);
+  expect(parseCsv('')).toEqual([]);
+  expect(formatCsv([['a,b', 'c"d', 'e'], []])).toBe('"a,b","c""d",e\n\n');
+});
+
+test('malformed fields throw', () => {
+  expect(() => parseCsv('"a"b\n')).toThrowError(SyntaxError);
+  expect(() => parseCsv('a,"b\n')).toThrowError(SyntaxError);
+});
+
+test('formatted records parse back', () => {
+  fc.assert(
+    fc.property(fc.array(fc.array(fc.string({ unit: fc.constantFrom('a', ',', '"', '\n', '\r', ' ') }), { minLength: 2 })), (records) => {
+      expect(parseCsv(formatCsv(records))).toEqual(records);
+    }),
+  );
+});
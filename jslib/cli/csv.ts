@@ -0,0 +1,40 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+// RFC 4180 CSV: fields separated by ',', records by CRLF or LF
+// A field containing ',', '"' or a newline is quoted, with '"' doubled inside
+// A trailing newline does not start another record
+export function parseCsv(str: string): string[][] {
+  const records: string[][] = new Array();
+  let record: string[] = new Array();
+  const re_field = /"(?<quoted>(?:[^"]|"")*)"|(?<plain>[^,\r\n"]*)/vy;
+
+  let offset = 0;
+  while (offset < str.length) {
+    re_field.lastIndex = offset;
+    const { quoted, plain } = re_field.exec(str)!.groups!;
+    record.push(quoted !== undefined ? quoted.replaceAll('""', '"') : plain);
+    offset = re_field.lastIndex;
+
+    if (str.startsWith(',', offset)) {
+      offset += 1;
+      if (offset === str.length) {
+        records.push([...record, '']);
+      }
+    } else {
+      const newline = /\r?\n|$/vy;
+      newline.lastIndex = offset;
+      if (newline.exec(str) === null) {
+        throw new SyntaxError(`Malformed CSV field at offset ${offset}`);
+      }
+      offset = newline.lastIndex;
+      records.push(record);
+      record = new Array();
+    }
+  }
+  return records;
+}
+
+export function formatCsv(records: string[][]): string {
+  return records.map((record) => record.map((field) => /[,"\r\n]/v.test(field) ? `"${field.replaceAll('"', '""')}"` : field).join(',') + '\n').join('');
+}
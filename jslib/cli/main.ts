@@ -0,0 +1,17 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+// Node entry point, e.g. 'yarn cli check mapping.txt'
+/* v8 ignore start */
+import { readFile, writeFile } from 'node:fs/promises';
+import { text } from 'node:stream/consumers';
+import { run } from '#cli/cli';
+
+process.exitCode = await run(process.argv.slice(2), {
+  readFile: (path) => readFile(path, 'utf8'),
+  writeFile: (path, data) => writeFile(path, data, 'utf8'),
+  readStdin: () => text(process.stdin),
+  stdout: (data) => process.stdout.write(data),
+  stderr: (data) => process.stderr.write(data),
+});
+/* v8 ignore stop */
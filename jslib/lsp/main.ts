@@ -0,0 +1,26 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+// Node entry point over stdio, e.g. 'yarn lsp' as the server command of an editor
+/* v8 ignore start */
+import { encodeMessage, messageReader } from '#lsp/rpc';
+import { lspServer } from '#lsp/server';
+
+const receive = lspServer({
+  send: (message) => process.stdout.write(encodeMessage(message)),
+  exit: (code) => process.exit(code),
+});
+const read = messageReader(({ code, message }) => {
+  process.stdout.write(encodeMessage({ jsonrpc: '2.0', id: null, error: { code, message } }));
+});
+process.stdin.on('data', (chunk: Buffer) => {
+  for (const message of read(chunk)) {
+    // the server answers its own errors, so this is only a failure to send; the next message may still go through
+    try {
+      receive(message);
+    } catch (e) {
+      process.stderr.write(`ankiss lsp: ${(e as Error).stack ?? e}\n`);
+    }
+  }
+});
+/* v8 ignore stop */
@@ -0,0 +1,84 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+// The parts of the Language Server Protocol 3.17 the server uses
+// https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/
+
+// JSON-RPC 2.0 request (with id), notification (without) or response (with result or error)
+export interface RpcMessage {
+  jsonrpc: '2.0',
+  id?: number | string | null,
+  method?: string,
+  params?: unknown,
+  result?: unknown,
+  error?: { code: number, message: string },
+}
+
+export const RpcErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+  RequestFailed: -32803,
+} as const;
+
+// Zero-based line and character offset in UTF-16 code units; lines are split at '\n', '\r\n' and '\r' only
+export interface Position {
+  line: number,
+  character: number,
+}
+
+export interface Range {
+  start: Position,
+  end: Position,
+}
+
+export interface Location {
+  uri: string,
+  range: Range,
+}
+
+export interface TextEdit {
+  range: Range,
+  newText: string,
+}
+
+// Whole document if no range
+export interface ContentChange {
+  range?: Range,
+  text: string,
+}
+
+export const MessageType = { Error: 1, Warning: 2, Info: 3, Log: 4 } as const;
+
+export const DiagnosticSeverity = { Error: 1, Warning: 2, Information: 3, Hint: 4 } as const;
+
+export interface Diagnostic {
+  range: Range,
+  severity: number,
+  code: string,
+  source: string,
+  message: string,
+}
+
+export interface DocumentSymbol {
+  name: string,
+  detail?: string,
+  kind: number,
+  range: Range, // whole subtree
+  selectionRange: Range, // label
+  children: DocumentSymbol[],
+}
+
+export const SymbolKind = { Namespace: 3, Key: 20 } as const;
+
+export interface FoldingRange {
+  startLine: number,
+  endLine: number,
+}
+
+export interface WorkspaceEdit {
+  changes: Record<string, TextEdit[]>,
+}
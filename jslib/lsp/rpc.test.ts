@@ -0,0 +1,37 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import type { RpcMessage } from '#lsp/protocol';
+import { encodeMessage, messageReader, type ResponseError } from '#lsp/rpc';
+
+const encoder = new TextEncoder();
+
+test('header counts content in UTF-8 bytes', () => {
+  const bytes = encodeMessage({ jsonrpc: '2.0', method: 'x', params: 'é\u{10300}' });
+  expect(new TextDecoder().decode(bytes)).toBe('Content-Length: 48\r\n\r\n{"jsonrpc":"2.0","method":"x","params":"é\u{10300}"}');
+});
+
+test('messages split into arbitrary chunks are reassembled', () => {
+  const arbMessage = fc.record({ id: fc.nat(), method: fc.string(), params: fc.string({ unit: 'grapheme' }) })
+    .map((m): RpcMessage => ({ jsonrpc: '2.0', ...m }));
+  fc.assert(
+    fc.property(fc.array(arbMessage), fc.array(fc.nat()), (messages, cuts) => {
+      const bytes = messages.flatMap((m) => Array.from(encodeMessage(m)));
+      const read = messageReader(() => { throw new Error('unreachable'); }), received: RpcMessage[] = new Array();
+      let start = 0;
+      for (const cut of [...cuts.map((c) => c % (bytes.length + 1)).sort((a, b) => a - b), bytes.length]) {
+        received.push(...read(new Uint8Array(bytes.slice(start, Math.max(start, cut)))));
+        start = Math.max(start, cut);
+      }
+      expect(received).toEqual(messages);
+    }),
+  );
+});
+
+test('malformed messages are reported and skipped', () => {
+  const errors: ResponseError[] = new Array(), read = messageReader((e) => { errors.push(e); });
+  expect(read(encoder.encode('Content-Type: x\r\n\r\nContent-Length: 2\r\n\r\n{]Content-Length: 2\r\n\r\n{}'))).toEqual([{}]);
+  expect(errors.map(({ code, message }) => [code, message.split(':')[0]])).toEqual([[-32700, 'Missing Content-Length in header \'Content-Type'], [-32700, 'Invalid JSON content']]);
+});
@@ -0,0 +1,75 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { RpcErrorCodes, type RpcMessage } from '#lsp/protocol';
+
+// Error response to a request, with a JSON-RPC error code
+export class ResponseError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'ResponseError';
+    this.code = code;
+  }
+}
+
+const encoder = new TextEncoder(), decoder = new TextDecoder();
+
+// Frames a message for the LSP base protocol: a header with its length in UTF-8 bytes, then the JSON content
+export function encodeMessage(message: RpcMessage): Uint8Array {
+  const content = encoder.encode(JSON.stringify(message));
+  const header = encoder.encode(`Content-Length: ${content.length}\r\n\r\n`);
+  const bytes = new Uint8Array(header.length + content.length);
+  bytes.set(header);
+  bytes.set(content, header.length);
+  return bytes;
+}
+
+// Reassembles framed messages from a byte stream in arbitrary chunks
+// Each call returns the messages completed by the chunk; a malformed message is skipped, reported to onError
+export function messageReader(onError: (error: ResponseError) => void): (chunk: Uint8Array) => RpcMessage[] {
+  let buffer = new Uint8Array(0);
+
+  return (chunk) => {
+    const joined = new Uint8Array(buffer.length + chunk.length);
+    joined.set(buffer);
+    joined.set(chunk, buffer.length);
+    buffer = joined;
+
+    const messages: RpcMessage[] = new Array();
+    for (;;) {
+      // header is ASCII, so its end is found bytewise
+      let end = -1;
+      for (let i = 0; i + 3 < buffer.length; i++) {
+        if (buffer[i] === 13 && buffer[i + 1] === 10 && buffer[i + 2] === 13 && buffer[i + 3] === 10) {
+          end = i;
+          break;
+        }
+      }
+      if (end < 0) {
+        return messages;
+      }
+
+      const header = decoder.decode(buffer.subarray(0, end));
+      const length = /^content-length: *(\d+)$/imv.exec(header);
+      if (length === null) {
+        buffer = buffer.slice(end + 4);
+        onError(new ResponseError(RpcErrorCodes.ParseError, `Missing Content-Length in header '${header}'`));
+        continue;
+      }
+      const start = end + 4, contentEnd = start + Number(length[1]);
+      if (buffer.length < contentEnd) {
+        return messages;
+      }
+
+      const content = decoder.decode(buffer.subarray(start, contentEnd));
+      buffer = buffer.slice(contentEnd);
+      try {
+        messages.push(JSON.parse(content));
+      } catch (e) {
+        onError(new ResponseError(RpcErrorCodes.ParseError, `Invalid JSON content: ${(e as Error).message}`));
+      }
+    }
+  };
+}
@@ -0,0 +1,198 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import type { RpcMessage } from '#lsp/protocol';
+import { lspServer, type LspSettings } from '#lsp/server';
+
+// In-process client, collecting what the server sends
+function fakeClient() {
+  const responses = new Map<number, RpcMessage>(), diagnostics = new Map<string, any[]>(), exits: number[] = new Array();
+  const logs: string[] = new Array();
+  const receive = lspServer({
+    send: (message) => {
+      const params = message.params as any;
+      if (message.method === 'textDocument/publishDiagnostics') {
+        diagnostics.set(params.uri, params.diagnostics);
+      } else if (message.method === 'window/logMessage') {
+        logs.push(params.message);
+      } else {
+        responses.set(message.id as number, message);
+      }
+    },
+    exit: (code) => { exits.push(code); },
+  });
+
+  let nextId = 0;
+  return {
+    diagnostics,
+    exits,
+    logs,
+    // result, or the error response
+    request(method: string, params?: any): any {
+      const id = nextId++;
+      receive({ jsonrpc: '2.0', id, method, params });
+      const { result, error } = responses.get(id)!;
+      return error ?? result;
+    },
+    notify(method: string, params?: any) {
+      receive({ jsonrpc: '2.0', method, params });
+    },
+    receive,
+  };
+}
+
+const uri = 'file:///m.txt';
+
+function openClient(text: string, settings: LspSettings = {}) {
+  const client = fakeClient();
+  client.request('initialize', { processId: null, rootUri: null, capabilities: {}, initializationOptions: settings });
+  client.notify('initialized', {});
+  client.notify('textDocument/didOpen', { textDocument: { uri, languageId: 'ankiss', version: 1, text } });
+  return client;
+}
+
+function range(startLine: number, startChar: number, endLine: number, endChar: number) {
+  return { start: { line: startLine, character: startChar }, end: { line: endLine, character: endChar } };
+}
+
+test('lifecycle: initialize, shutdown and exit', () => {
+  const client = fakeClient();
+  expect(client.request('textDocument/documentSymbol', { textDocument: { uri } })).toMatchObject({ code: -32002 });
+  expect(client.request('initialize', {})).toMatchObject({ capabilities: { textDocumentSync: { change: 2 }, renameProvider: true } });
+  expect(client.request('textDocument/hover', {})).toMatchObject({ code: -32601 });
+  expect(client.request('textDocument/documentSymbol', { textDocument: { uri } })).toMatchObject({ code: -32602 });
+  client.notify('textDocument/didChange', { textDocument: { uri, version: 2 }, contentChanges: [] });
+  client.receive({ jsonrpc: '2.0', id: 99, result: null });
+  // malformed messages are bugs in the client, but do not stop the server
+  expect(client.request('textDocument/documentSymbol', {})).toMatchObject({ code: -32602 });
+  client.notify('textDocument/didOpen', {});
+  expect(client.logs).toEqual([expect.stringMatching(/^textDocument\/didOpen failed: /v)]);
+  expect(client.logs).toHaveLength(1);
+
+  expect(client.request('shutdown')).toBe(null);
+  expect(client.request('textDocument/documentSymbol', { textDocument: { uri } })).toMatchObject({ code: -32600 });
+  client.notify('exit');
+  expect(client.exits).toEqual([0]);
+
+  const aborted = fakeClient();
+  aborted.notify('exit');
+  expect(aborted.exits).toEqual([1]);
+});
+
+test('diagnostics are published on open, change and close', () => {
+  const client = openClient('a\n  b \n c\n');
+  expect(client.diagnostics.get(uri)).toEqual([
+    { range: range(2, 0, 2, 1), severity: 1, code: 'InconsistentWhitespace', source: 'ankiss', message: 'Inconsistent whitespace at nesting level 2' },
+    { range: range(1, 3, 1, 4), severity: 2, code: 'TrailingWhitespace', source: 'ankiss', message: 'Trailing whitespace' },
+  ]);
+
+  client.notify('textDocument/didChange', { textDocument: { uri, version: 2 }, contentChanges: [
+    { range: range(2, 0, 2, 1), text: '  ' },
+    { range: range(1, 3, 1, 4), text: '' },
+  ] });
+  expect(client.diagnostics.get(uri)).toEqual([]);
+  client.notify('textDocument/didChange', { textDocument: { uri, version: 3 }, contentChanges: [{ text: 'a x\nb x\n' }] });
+  expect(client.diagnostics.get(uri)).toMatchObject([{ severity: 3, code: 'DuplicateTarget' }]);
+
+  client.notify('textDocument/didClose', { textDocument: { uri } });
+  expect(client.diagnostics.get(uri)).toEqual([]);
+});
+
+test('lint severities come from the settings', () => {
+  const client = openClient('a x\nb x\nc \n', { lint: { DuplicateTarget: 'error', TrailingWhitespace: 'off' } });
+  expect(client.diagnostics.get(uri)).toMatchObject([{ severity: 1, code: 'DuplicateTarget' }]);
+});
+
+test('lint sees each target of a mapping', () => {
+  const client = openClient('a Cytology Cells\nb cells\nCells a\n');
+  expect(client.diagnostics.get(uri)).toMatchObject([
+    { range: range(0, 2, 0, 16), code: 'MappingCycle', message: 'Mapping cycle between a, Cells' },
+    { range: range(1, 2, 1, 7), code: 'DuplicateTarget', message: 'Also mapped to \'cells\' at line 1' },
+  ]);
+});
+
+test('symbols and folding ranges follow the nesting', () => {
+  const client = openClient('Biology\n  Cell Cytology\n  Botany\n    Trees\n# end\nPlants Biology::Botany\n', { comments: true });
+  expect(client.request('textDocument/documentSymbol', { textDocument: { uri } })).toEqual([
+    { name: 'Biology', kind: 3, range: range(0, 0, 3, 9), selectionRange: range(0, 0, 0, 7), children: [
+      { name: 'Cell', detail: 'Cytology', kind: 20, range: range(1, 0, 1, 15), selectionRange: range(1, 2, 1, 6), children: [] },
+      { name: 'Botany', kind: 3, range: range(2, 0, 3, 9), selectionRange: range(2, 2, 2, 8), children: [
+        { name: 'Trees', kind: 20, range: range(3, 0, 3, 9), selectionRange: range(3, 4, 3, 9), children: [] },
+      ] },
+    ] },
+    { name: 'Plants', detail: 'Biology::Botany', kind: 20, range: range(5, 0, 5, 22), selectionRange: range(5, 0, 5, 6), children: [] },
+  ]);
+  expect(client.request('textDocument/foldingRange', { textDocument: { uri } })).toEqual([
+    { startLine: 0, endLine: 3 }, { startLine: 2, endLine: 3 },
+  ]);
+});
+
+test('definition goes from a target to its label', () => {
+  const client = openClient('Biology\n  Botany\nPlants Biology::Botany  Other\n');
+  const at = (line: number, character: number) => client.request('textDocument/definition', { textDocument: { uri }, position: { line, character } });
+  expect(at(2, 10)).toEqual({ uri, range: range(1, 2, 1, 8) });
+  expect(at(2, 22)).toEqual({ uri, range: range(1, 2, 1, 8) });
+  expect(at(2, 23)).toBe(null); // between targets
+  expect(at(2, 25)).toBe(null); // no such label
+  expect(at(2, 22 - 15 - 1)).toBe(null); // between label and mapping
+  expect(at(0, 1)).toBe(null); // label
+  // in any case, as Anki compares tags
+  expect(openClient('Biology\nPlants biology\n').request('textDocument/definition', { textDocument: { uri }, position: { line: 1, character: 9 } }))
+    .toEqual({ uri, range: range(0, 0, 0, 7) });
+});
+
+test('rename changes a label and every target under its tag', () => {
+  const client = openClient('Bio\n  Botany\nPlants Bio::Botany\nLife Bio Biology\n', { comments: true });
+  const rename = (line: number, character: number, newName: string) =>
+    client.request('textDocument/rename', { textDocument: { uri }, position: { line, character }, newName });
+  expect(rename(0, 1, 'Bio#logy')).toEqual({ changes: { [uri]: [
+    { range: range(0, 0, 0, 3), newText: 'Bio\\#logy' },
+    { range: range(2, 7, 2, 18), newText: 'Bio\\#logy::Botany' },
+    { range: range(3, 5, 3, 8), newText: 'Bio\\#logy' },
+  ] } });
+  // from a target, renaming only the last label of its tag
+  expect(rename(2, 15, 'Plants')).toEqual({ changes: { [uri]: [
+    { range: range(1, 2, 1, 8), newText: 'Plants' },
+    { range: range(2, 7, 2, 18), newText: 'Bio::Plants' },
+  ] } });
+  expect(openClient('Bio\nLife bio::x\n').request('textDocument/rename', { textDocument: { uri }, position: { line: 0, character: 0 }, newName: 'B' }))
+    .toEqual({ changes: { [uri]: [{ range: range(0, 0, 0, 3), newText: 'B' }, { range: range(1, 5, 1, 11), newText: 'B::x' }] } });
+  expect(rename(3, 12, 'x')).toBe(null);
+  expect(rename(1, 0, 'x')).toBe(null);
+  for (const newName of ['', 'a b', 'a::b', 'a"b']) {
+    expect(rename(0, 1, newName)).toMatchObject({ code: -32803 });
+  }
+});
+
+test('requests with malformed params get an invalid params error', () => {
+  const client = openClient('a x\n');
+  const position = { line: 0, character: 0 };
+  expect(client.request('initialize', { initializationOptions: 1 })).toMatchObject({ code: -32602 });
+  expect(client.request('textDocument/formatting', {})).toMatchObject({ code: -32602 });
+  expect(client.request('textDocument/formatting', { textDocument: { uri } })).toMatchObject({ code: -32602 });
+  expect(client.request('textDocument/formatting', { textDocument: { uri }, options: { tabSize: 4 } })).toMatchObject({ code: -32602 });
+  expect(client.request('textDocument/rename', { textDocument: { uri }, position })).toMatchObject({ code: -32602 });
+  expect(client.request('textDocument/definition', { textDocument: { uri }, position: { line: 0 } })).toMatchObject({ code: -32602 });
+  expect(client.request('textDocument/foldingRange', { textDocument: { uri: 1 } })).toMatchObject({ code: -32602 });
+  expect(client.request('textDocument/foldingRange', null)).toMatchObject({ code: -32602 });
+  // well-formed params the handler cannot use are an internal error
+  expect(client.request('textDocument/formatting', { textDocument: { uri }, options: { tabSize: 0, insertSpaces: true } })).toMatchObject({ code: -32603 });
+  expect(client.request('textDocument/documentSymbol', { textDocument: { uri } })).toHaveLength(1);
+
+  client.notify('textDocument/didChange', {});
+  client.notify('textDocument/didChange', { textDocument: { uri, version: 2 } });
+  client.notify('textDocument/didChange', { textDocument: { uri, version: 2 }, contentChanges: [{ range: { start: position }, text: '' }] });
+  client.notify('textDocument/didOpen', { textDocument: { uri, version: 2 } });
+  expect(client.logs).toEqual(Array(4).fill(expect.stringContaining('failed: Invalid params')));
+  client.notify('textDocument/didChange', { textDocument: { uri: 'file:///closed', version: 2 }, contentChanges: [] });
+  expect(client.logs).toHaveLength(4);
+});
+
+test('formatting replaces the document with its canonical format', () => {
+  const format = (client: ReturnType<typeof fakeClient>, insertSpaces: boolean) =>
+    client.request('textDocument/formatting', { textDocument: { uri }, options: { tabSize: 4, insertSpaces } });
+  expect(format(openClient('a   x\n b\n'), true)).toEqual([{ range: range(0, 0, 2, 0), newText: 'a x\n    b\n' }]);
+  expect(format(openClient('a x\n\tb\n'), false)).toEqual([]);
+  expect(format(openClient(' a\n'), true)).toEqual([]);
+});
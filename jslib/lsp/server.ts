@@ -0,0 +1,371 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import type { Span } from '#types';
+import { format } from '#tags/format';
+import { parseFull, reparse, type ParseState } from '#tags/incremental';
+import { escapeWord, type LexOptions } from '#tags/lexWsOnly';
+import { lint, type LintConfig } from '#tags/lint';
+import { bareMessage } from '#tags/parseLine';
+import { re_whitespace } from '#tags/resolve';
+import { splitTargets, withTargets, type MappingTarget } from '#tags/targets';
+import { buildTree, nestable, walkTree, type TagNode } from '#tags/tree';
+import {
+  DiagnosticSeverity, MessageType, RpcErrorCodes, SymbolKind,
+  type ContentChange, type Diagnostic, type DocumentSymbol, type FoldingRange, type Location, type Position, type RpcMessage,
+  type TextEdit, type WorkspaceEdit,
+} from '#lsp/protocol';
+import { ResponseError } from '#lsp/rpc';
+import { applyChange, lineIndex, type LineIndex } from '#lsp/text';
+
+export interface LspServerOptions {
+  send(message: RpcMessage): void,
+  exit(code: number): void,
+}
+
+// initializationOptions the client may pass, for all documents
+export interface LspSettings {
+  comments?: boolean, // see LexOptions; default off
+  quotes?: boolean, // see LexOptions; default off
+  separator?: string, // hierarchical tag separator; default '::'
+  lint?: LintConfig,
+}
+
+// Open document with its parse, and what every request needs from it
+interface Document {
+  state: ParseState,
+  index: LineIndex,
+  nodes: TagNode[], // valid mappings, in order
+  roots: TagNode[],
+}
+
+interface TextDocumentParams {
+  textDocument: { uri: string },
+}
+
+interface PositionParams extends TextDocumentParams {
+  position: Position,
+}
+
+interface InitializeParams {
+  initializationOptions?: LspSettings,
+}
+
+interface RenameParams extends PositionParams {
+  newName: string,
+}
+
+interface FormattingParams extends TextDocumentParams {
+  options: { tabSize: number, insertSpaces: boolean },
+}
+
+interface DidOpenParams {
+  textDocument: { uri: string, version: number, text: string },
+}
+
+interface DidChangeParams {
+  textDocument: { uri: string, version: number },
+  contentChanges: ContentChange[],
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isPosition(value: unknown): value is Position {
+  return isObject(value) && typeof value.line === 'number' && typeof value.character === 'number';
+}
+
+function isTextDocumentParams(params: unknown): params is TextDocumentParams {
+  return isObject(params) && isObject(params.textDocument) && typeof params.textDocument.uri === 'string';
+}
+
+function isPositionParams(params: unknown): params is PositionParams {
+  return isTextDocumentParams(params) && isPosition((params as Partial<PositionParams>).position);
+}
+
+function isInitializeParams(params: unknown): params is InitializeParams {
+  return isObject(params) && (params.initializationOptions === undefined || isObject(params.initializationOptions));
+}
+
+function isRenameParams(params: unknown): params is RenameParams {
+  return isPositionParams(params) && typeof (params as Partial<RenameParams>).newName === 'string';
+}
+
+function isFormattingParams(params: unknown): params is FormattingParams {
+  if (!isTextDocumentParams(params)) {
+    return false;
+  }
+  const { options } = params as Partial<FormattingParams>;
+  return isObject(options) && typeof options.tabSize === 'number' && typeof options.insertSpaces === 'boolean';
+}
+
+function isDidOpenParams(params: unknown): params is DidOpenParams {
+  if (!isTextDocumentParams(params)) {
+    return false;
+  }
+  const { version, text } = params.textDocument as { version?: unknown, text?: unknown };
+  return typeof version === 'number' && typeof text === 'string';
+}
+
+function isContentChange(change: unknown): change is ContentChange {
+  return isObject(change) && typeof change.text === 'string'
+    && (change.range === undefined || (isObject(change.range) && isPosition(change.range.start) && isPosition(change.range.end)));
+}
+
+function isDidChangeParams(params: unknown): params is DidChangeParams {
+  if (!isTextDocumentParams(params)) {
+    return false;
+  }
+  const { version } = params.textDocument as { version?: unknown }, { contentChanges } = params as { contentChanges?: unknown };
+  return typeof version === 'number' && Array.isArray(contentChanges) && contentChanges.every(isContentChange);
+}
+
+// Handler of params checked to have the shape it takes, so malformed params are an InvalidParams error instead
+function checked<P, R>(valid: (params: unknown) => params is P, handle: (params: P) => R): (params: unknown) => R {
+  return (params) => {
+    if (!valid(params)) {
+      throw new ResponseError(RpcErrorCodes.InvalidParams, 'Invalid params');
+    }
+    return handle(params);
+  };
+}
+
+// Deepest last line of a subtree, where its range ends
+function lastDescendant(node: TagNode): TagNode {
+  return node.children.length ? lastDescendant(node.children[node.children.length - 1]) : node;
+}
+
+function contentEnd({ labelSpan, mappingSpan }: TagNode): number {
+  return (mappingSpan ?? labelSpan).end;
+}
+
+function contains({ start, end }: Span, offset: number): boolean {
+  return start <= offset && offset <= end;
+}
+
+// Language server for mapping files, as a handler of each message received from the client
+//
+// Documents are synced incrementally and re-parsed by reparse(), publishing parse errors and lint results on each change
+// Requests:
+// - documentSymbol: one per label, nested as the mappings
+// - foldingRange: one per label with children, over its subtree
+// - definition: from a target in a mapping to the label defining that tag, in any case
+// - rename: of a label, also in every target naming its tag or a tag below it, in any case
+// - formatting: canonical format (see format()), if the document parses without errors
+// Unexpected errors (e.g. from malformed params) never stop the server: a request gets an InternalError response, a
+// notification a window/logMessage
+export function lspServer({ send, exit }: LspServerOptions): (message: RpcMessage) => void {
+  let state: 'Uninitialized' | 'Running' | 'ShutDown' = 'Uninitialized';
+  let lexOptions: LexOptions = {}, separator = '::', lintConfig: LintConfig = {};
+  const documents = new Map<string, Document>();
+
+  function open(uri: string, version: number, parsed: ParseState) {
+    const roots = buildTree(nestable(parsed.mappings));
+    const doc: Document = { state: parsed, index: lineIndex(parsed.str), nodes: Array.from(walkTree(roots)), roots };
+    documents.set(uri, doc);
+
+    const { str, diagnostics } = parsed;
+    const problems: Diagnostic[] = diagnostics.map(({ code, message, span }) => ({
+      range: doc.index.range(span), severity: DiagnosticSeverity.Error, code, source: 'ankiss', message: bareMessage(message),
+    }));
+    for (const { rule, severity, message, span } of lint(str, withTargets(str, doc.nodes, lexOptions), { config: lintConfig, separator })) {
+      problems.push({
+        range: doc.index.range(span),
+        severity: severity === 'error' ? DiagnosticSeverity.Error : severity === 'warning' ? DiagnosticSeverity.Warning : DiagnosticSeverity.Information,
+        code: rule,
+        source: 'ankiss',
+        message: bareMessage(message),
+      });
+    }
+    send({ jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: { uri, version, diagnostics: problems } });
+  }
+
+  function getDocument({ textDocument: { uri } }: TextDocumentParams): Document {
+    const doc = documents.get(uri);
+    if (doc === undefined) {
+      throw new ResponseError(RpcErrorCodes.InvalidParams, `Document ${uri} is not open`);
+    }
+    return doc;
+  }
+
+  function tagOf(node: TagNode): string {
+    return node.path.join(separator);
+  }
+
+  // Anki compares tags case-insensitively, as lint does
+  function tagKey(tag: string): string {
+    return tag.toLowerCase();
+  }
+
+  function targetsOf(doc: Document, node: TagNode): MappingTarget[] {
+    return splitTargets(doc.state.str, node, lexOptions);
+  }
+
+  // Label at a position, directly or through a target naming it
+  function labelAt(doc: Document, position: Position): TagNode | null {
+    const offset = doc.index.offset(position);
+    for (const node of doc.nodes) {
+      if (contains(node.labelSpan, offset)) {
+        return node;
+      }
+      if (node.mappingSpan !== null && contains(node.mappingSpan, offset)) {
+        const target = targetsOf(doc, node).find(({ span }) => contains(span, offset));
+        return target !== undefined ? doc.nodes.find((n) => tagKey(tagOf(n)) === tagKey(target.target)) ?? null : null;
+      }
+    }
+    return null;
+  }
+
+  function symbol(doc: Document, node: TagNode): DocumentSymbol {
+    return {
+      name: node.label,
+      ...(node.mapping !== null ? { detail: node.mapping } : {}),
+      kind: node.children.length ? SymbolKind.Namespace : SymbolKind.Key,
+      range: doc.index.range({ start: node.line.start, end: contentEnd(lastDescendant(node)) }),
+      selectionRange: doc.index.range(node.labelSpan),
+      children: node.children.map((child) => symbol(doc, child)),
+    };
+  }
+
+  const requests: Record<string, (params: unknown) => unknown> = {
+    initialize: checked(isInitializeParams, ({ initializationOptions }) => {
+      const { comments = false, quotes = false, separator: sep = '::', lint: config = {} } = initializationOptions ?? {};
+      lexOptions = { comments, quotes };
+      separator = sep;
+      lintConfig = config;
+      state = 'Running';
+      return {
+        capabilities: {
+          positionEncoding: 'utf-16',
+          textDocumentSync: { openClose: true, change: 2 },
+          documentSymbolProvider: true,
+          foldingRangeProvider: true,
+          definitionProvider: true,
+          renameProvider: true,
+          documentFormattingProvider: true,
+        },
+        serverInfo: { name: 'ankiss' },
+      };
+    }),
+
+    shutdown() {
+      state = 'ShutDown';
+      return null;
+    },
+
+    'textDocument/documentSymbol': checked(isTextDocumentParams, (params): DocumentSymbol[] => {
+      const doc = getDocument(params);
+      return doc.roots.map((node) => symbol(doc, node));
+    }),
+
+    'textDocument/foldingRange': checked(isTextDocumentParams, (params): FoldingRange[] => {
+      const doc = getDocument(params), ranges: FoldingRange[] = new Array();
+      for (const node of doc.nodes) {
+        const startLine = doc.index.position(node.line.start).line, endLine = doc.index.position(contentEnd(lastDescendant(node))).line;
+        if (endLine > startLine) {
+          ranges.push({ startLine, endLine });
+        }
+      }
+      return ranges;
+    }),
+
+    'textDocument/definition': checked(isPositionParams, (params): Location | null => {
+      const doc = getDocument(params), offset = doc.index.offset(params.position);
+      const inMapping = doc.nodes.some(({ mappingSpan }) => mappingSpan !== null && contains(mappingSpan, offset));
+      const label = inMapping ? labelAt(doc, params.position) : null;
+      return label !== null ? { uri: params.textDocument.uri, range: doc.index.range(label.labelSpan) } : null;
+    }),
+
+    'textDocument/rename': checked(isRenameParams, (params): WorkspaceEdit | null => {
+      const doc = getDocument(params), { newName } = params;
+      if (!newName.length || newName.includes(separator) || re_whitespace.test(newName) || /[\p{Cc}"]/v.test(newName)) {
+        throw new ResponseError(RpcErrorCodes.RequestFailed, `Invalid label '${newName}'`);
+      }
+      const node = labelAt(doc, params.position);
+      if (node === null) {
+        return null;
+      }
+
+      const oldTag = tagOf(node), oldKey = tagKey(oldTag), newTag = [...node.path.slice(0, -1), newName].join(separator);
+      const edits: TextEdit[] = [{ range: doc.index.range(node.labelSpan), newText: escapeWord(newName, lexOptions) }];
+      for (const other of doc.nodes) {
+        for (const { target, span } of targetsOf(doc, other)) {
+          if (tagKey(target) === oldKey || tagKey(target).startsWith(oldKey + tagKey(separator))) {
+            edits.push({ range: doc.index.range(span), newText: escapeWord(newTag + target.substring(oldTag.length), lexOptions) });
+          }
+        }
+      }
+      return { changes: { [params.textDocument.uri]: edits } };
+    }),
+
+    'textDocument/formatting': checked(isFormattingParams, (params): TextEdit[] => {
+      const doc = getDocument(params), { str, diagnostics } = doc.state;
+      if (diagnostics.length) {
+        return [];
+      }
+      const formatted = format(doc.roots, { indent: params.options.insertSpaces ? params.options.tabSize : 'tab', ...lexOptions });
+      return formatted === str ? [] : [{ range: doc.index.range({ start: 0, end: str.length }), newText: formatted }];
+    }),
+  };
+
+  const notifications: Record<string, (params: unknown) => void> = {
+    'textDocument/didOpen': checked(isDidOpenParams, ({ textDocument: { uri, version, text } }) => {
+      open(uri, version, parseFull(text, lexOptions));
+    }),
+
+    'textDocument/didChange': checked(isDidChangeParams, (params) => {
+      const doc = documents.get(params.textDocument.uri);
+      if (doc === undefined) {
+        return; // a change to a closed document is expected, so not an error
+      }
+      let parsed = doc.state;
+      for (const change of params.contentChanges) {
+        const { str, span } = applyChange(parsed.str, change);
+        parsed = change.range !== undefined
+          ? reparse(parsed, { offset: span.start, deleted: span.end - span.start, inserted: change.text })
+          : parseFull(str, lexOptions);
+      }
+      open(params.textDocument.uri, params.textDocument.version, parsed);
+    }),
+
+    'textDocument/didClose': checked(isTextDocumentParams, ({ textDocument: { uri } }) => {
+      documents.delete(uri);
+      send({ jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: { uri, diagnostics: [] } });
+    }),
+  };
+
+  return ({ id, method, params }) => {
+    if (method === undefined) {
+      return; // response to a request the server never sends
+    }
+    if (id === undefined) {
+      if (method === 'exit') {
+        exit(state === 'ShutDown' ? 0 : 1);
+      } else if (state === 'Running' && Object.hasOwn(notifications, method)) {
+        try {
+          notifications[method](params);
+        } catch (e) {
+          // nothing to respond to, so logged
+          send({ jsonrpc: '2.0', method: 'window/logMessage', params: { type: MessageType.Error, message: `${method} failed: ${(e as Error).message}` } });
+        }
+      }
+      return;
+    }
+
+    try {
+      if (state !== 'Running' && method !== 'initialize') {
+        throw state === 'Uninitialized'
+          ? new ResponseError(RpcErrorCodes.ServerNotInitialized, 'Server not initialized')
+          : new ResponseError(RpcErrorCodes.InvalidRequest, 'Server shut down');
+      }
+      if (!Object.hasOwn(requests, method)) {
+        throw new ResponseError(RpcErrorCodes.MethodNotFound, `Unknown method ${method}`);
+      }
+      send({ jsonrpc: '2.0', id, result: requests[method](params) ?? null });
+    } catch (e) {
+      const { code, message } = e instanceof ResponseError ? e : { code: RpcErrorCodes.InternalError, message: (e as Error).message };
+      send({ jsonrpc: '2.0', id, error: { code, message } });
+    }
+  };
+}
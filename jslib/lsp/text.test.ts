@@ -0,0 +1,37 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { applyChange, lineIndex } from '#lsp/text';
+
+test('lines break at LF, CRLF and CR only', () => {
+  const index = lineIndex('a\r\nb\rc d\n');
+  expect([0, 1, 3, 4, 5, 6, 8, 9].map((offset) => index.position(offset))).toEqual([
+    { line: 0, character: 0 }, { line: 0, character: 1 }, { line: 1, character: 0 }, { line: 1, character: 1 },
+    { line: 2, character: 0 }, { line: 2, character: 1 }, { line: 2, character: 3 }, { line: 3, character: 0 },
+  ]);
+  // past the end of a line or the document
+  expect(index.offset({ line: 0, character: 5 })).toBe(1);
+  expect(index.offset({ line: 7, character: 0 })).toBe(9);
+});
+
+test('offsets round-trip through positions', () => {
+  fc.assert(
+    fc.property(fc.string({ unit: fc.constantFrom('a', '\r', '\n', '\u{10300}') }), (str) => {
+      const index = lineIndex(str);
+      for (let offset = 0; offset <= str.length; offset++) {
+        // the middle of CRLF is not a position
+        if (!(str[offset - 1] === '\r' && str[offset] === '\n')) {
+          expect(index.offset(index.position(offset))).toBe(offset);
+        }
+      }
+    }),
+  );
+});
+
+test('changes replace their range, or the whole text', () => {
+  expect(applyChange('a\nbc\n', { range: { start: { line: 1, character: 1 }, end: { line: 2, character: 0 } }, text: 'x' }))
+    .toEqual({ str: 'a\nbx', span: { start: 3, end: 5 } });
+  expect(applyChange('a\n', { text: 'b' })).toEqual({ str: 'b', span: { start: 0, end: 2 } });
+});
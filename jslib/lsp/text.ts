@@ -0,0 +1,57 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import type { Span } from '#types';
+import type { ContentChange, Position, Range } from '#lsp/protocol';
+
+// Converts between string offsets and LSP positions, which (unlike lex()) only break lines at '\n', '\r\n' and '\r'
+export interface LineIndex {
+  position(offset: number): Position,
+  offset(position: Position): number, // clamped to the line, excluding its line break
+  range(span: Span): Range,
+  span(range: Range): Span,
+}
+
+export function lineIndex(str: string): LineIndex {
+  // offset of the start of each line, and of the end of its content
+  const starts = [0], ends: number[] = new Array();
+  for (const { index, 0: nl } of str.matchAll(/\r\n|[\r\n]/gv)) {
+    ends.push(index);
+    starts.push(index + nl.length);
+  }
+  ends.push(str.length);
+
+  function position(offset: number): Position {
+    // last line starting at or before offset
+    let low = 0, high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >>> 1;
+      if (starts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low, character: offset - starts[low] };
+  }
+
+  function offset({ line, character }: Position): number {
+    if (line >= starts.length) {
+      return str.length;
+    }
+    return Math.min(starts[line] + character, ends[line]);
+  }
+
+  return {
+    position,
+    offset,
+    range: ({ start, end }) => ({ start: position(start), end: position(end) }),
+    span: ({ start, end }) => ({ start: offset(start), end: offset(end) }),
+  };
+}
+
+// Applies a didChange content change, returning the new text and the replaced span of the old
+export function applyChange(str: string, { range, text }: ContentChange): { str: string, span: Span } {
+  const span = range !== undefined ? lineIndex(str).span(range) : { start: 0, end: str.length };
+  return { str: str.substring(0, span.start) + text + str.substring(span.end), span };
+}
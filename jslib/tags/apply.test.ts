@@ -0,0 +1,122 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { parse, parseDefault, TagError } from '#tags/parseLine';
+import { arbInput } from '#tags/parseLine.arbitrary';
+import { applyMapping, compileMapping } from '#tags/apply';
+import { resolve } from '#tags/resolve';
+import { withTargets } from '#tags/targets';
+import { lex } from '#tags/lexWsOnly';
+
+const rules = compileMapping(parseDefault(`
+Biology
+  Cell Cytology
+    Mitosis
+  Botany Biology::Plants
+Plants Biology::Plants
+`));
+
+test('labels without mapping keep their own name', () => {
+  expect(rules.get('Biology')).toEqual({ targets: ['Biology'], linum: 2 });
+  expect(rules.get('Biology::Cell::Mitosis')).toEqual({ targets: ['Biology::Cell::Mitosis'], linum: 4 });
+});
+
+test('mapped labels are renamed', () => {
+  expect(applyMapping(rules, ['Biology::Cell', 'Chemistry'])).toEqual({
+    tags: ['Cytology', 'Chemistry'],
+    changes: [{ from: 'Biology::Cell', to: ['Cytology'], linum: 3 }],
+  });
+});
+
+test('tags match rules in any case, and keep their case unless renamed', () => {
+  expect(applyMapping(rules, ['biology::cell', 'BIOLOGY', 'chemistry'])).toEqual({
+    tags: ['Cytology', 'BIOLOGY', 'chemistry'],
+    changes: [{ from: 'biology::cell', to: ['Cytology'], linum: 3 }],
+  });
+  // the first of rules differing only in case
+  const cased = compileMapping(parseDefault('a x\nA y\n'));
+  expect(applyMapping(cased, ['A']).tags).toEqual(['x']);
+});
+
+test('merged tags are deduplicated with every change listed', () => {
+  expect(applyMapping(rules, ['Plants', 'Biology', 'Biology::Botany'])).toEqual({
+    tags: ['Biology::Plants', 'Biology'],
+    changes: [
+      { from: 'Plants', to: ['Biology::Plants'], linum: 6 },
+      { from: 'Biology::Botany', to: ['Biology::Plants'], linum: 5 },
+    ],
+  });
+});
+
+test('quoted labels with whitespace need a mapping', () => {
+  const str = '"Cell Biology" Cell_Biology\n  Mitosis\n';
+  expect(() => compileMapping(parse(str, lex(str, 0, { quotes: true })))).toThrowError(expect.objectContaining({
+    code: 'InvalidLabelCharacter',
+    linum: 2,
+  }));
+  const rules = compileMapping(Array.from(parse(str, lex(str, 0, { quotes: true }))).slice(0, 1));
+  expect(applyMapping(rules, ['Cell Biology']).tags).toEqual(['Cell_Biology']);
+});
+
+test('first of duplicate labels wins', () => {
+  const rules = compileMapping(parseDefault('a b\na c\n'));
+  expect(rules.get('a')).toEqual({ targets: ['b'], linum: 1 });
+});
+
+test('targets fan out to several tags in order', () => {
+  const str = 'a x y\nb x, a\nc ,\n';
+  // a target must be one Anki tag, so whitespace inside it is an error
+  expect(() => compileMapping(withTargets(str, parseDefault(str), { separator: ',' }))).toThrowError(expect.objectContaining({
+    code: 'InvalidLabelCharacter', message: 'Target \'x y\' contains character U+0020 not allowed in Anki tags at line {1}: {a}',
+    span: { start: 2, end: 5 }, column: { start: 2, end: 5 },
+  }));
+  const quoted = 'a "x y"\nb "x\\"y"\n';
+  expect(() => compileMapping(parse(quoted, lex(quoted, 0, { quotes: true })))).toThrowError(expect.objectContaining({
+    code: 'InvalidLabelCharacter', linum: 1, column: { start: 2, end: 7 },
+  }));
+  expect(() => compileMapping(parse(quoted.substring(8), lex(quoted.substring(8), 0, { quotes: true })))).toThrowError('character U+0022');
+  const rules = compileMapping(withTargets('c ,\n', parseDefault('c ,\n'), { separator: ',' }));
+  expect(rules.get('c')!.targets).toEqual(['c']);
+  const split = compileMapping(withTargets(str, parseDefault(str)));
+  expect(split.get('a')!.targets).toEqual(['x', 'y']);
+  // 'a' as a target chains on to its own targets
+  expect(applyMapping(split, ['b', 'a', 'z'])).toEqual({
+    tags: ['x,', 'x', 'y', 'z'],
+    changes: [
+      { from: 'b', to: ['x,', 'x', 'y'], linum: 2 },
+      { from: 'a', to: ['x', 'y'], linum: 1 },
+    ],
+  });
+});
+
+test('applying to all source tags renames exactly the mapped ones', () => {
+  fc.assert(
+    fc.property(arbInput, ([_tree, str, lexOut]) => {
+      const result = Array.from(resolve(parse(str, lexOut)));
+      // tags kept, or mapped to, must be valid Anki tags
+      if (result.some(({ tag, mapping }) => mapping === null ? /\p{White_Space}/v.test(tag) : /[\p{White_Space}\p{Cc}"]/v.test(mapping))) {
+        expect(() => compileMapping(result)).toThrowError(TagError);
+        return;
+      }
+      let rules;
+      try {
+        rules = compileMapping(result);
+      } catch (e) {
+        expect(e).toMatchObject({ code: 'MappingCycle' });
+        return;
+      }
+      const tags = Array.from(rules.keys());
+      const { changes } = applyMapping(rules, tags);
+
+      for (const { from, to, linum } of changes) {
+        const line = result.find((m) => m.linum === linum)!;
+        expect(line.tag).toBe(from);
+        // chains go on to the mapping's own targets
+        expect(to).toEqual(rules.get(line.mapping!)?.targets ?? [line.mapping]);
+      }
+      expect(changes.length).toBe(tags.filter((tag) => rules.get(tag)!.targets[0] !== tag).length);
+    }),
+  );
+});
@@ -0,0 +1,103 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { TagError, type TagMapping } from '#tags/parseLine';
+import { mappingGraph, reduceChains } from '#tags/graph';
+import { invalidTagCharacter, re_whitespace, resolve } from '#tags/resolve';
+import type { TargetedMapping } from '#tags/targets';
+
+export interface TagRule {
+  targets: string[], // tags to rename to, which is just the source tag itself for a label without mapping
+  linum: number, // line of the mapping file defining this rule
+}
+
+// Keyed by fully qualified source tag
+export type TagRules = Map<string, TagRule>;
+
+export interface TagChange {
+  from: string,
+  to: string[],
+  linum: number, // line of the mapping file causing this change
+}
+
+export interface AppliedTags {
+  tags: string[],
+  changes: TagChange[],
+}
+
+// Compiles a stream of TagMappings into lookup rules by fully qualified tag name (see resolve())
+//
+// Labels without mapping (or no targets) keep their own name, so must not contain whitespace (else throws)
+// Labels with mapping are renamed to the mapping, or with targets (see withTargets()) to each target, which must be
+// valid Anki tags, so without whitespace, control characters or '"' (else throws at the target)
+// Duplicate labels: the first line wins
+// Chains are followed to their final targets (see reduceChains()), so applying is idempotent; cycles throw
+export function compileMapping(mappings: Iterable<TagMapping | TargetedMapping>, separator: string = '::'): TagRules {
+  const rules: TagRules = new Map();
+  // defining line of each rule, for errors; by tag, as lines of included files share line numbers
+  const lines = new Map<string, TagMapping>();
+  for (const resolved of resolve(mappings, separator)) {
+    const { tag, mapping, mappingSpan, linum } = resolved;
+    const mapped = 'targets' in resolved ? resolved.targets : mapping !== null ? [{ target: mapping, span: mappingSpan! }] : [];
+    for (const { target, span } of mapped) {
+      const invalid = invalidTagCharacter(target);
+      if (invalid !== null) {
+        throw TagError.atMapping('InvalidLabelCharacter', `Target '${target}' contains ${invalid} not allowed in Anki tags`, resolved, span);
+      }
+    }
+    const targets = mapped.map(({ target }) => target);
+    if (!targets.length && re_whitespace.test(tag)) {
+      throw TagError.atMapping('InvalidLabelCharacter', 'Tag without mapping contains whitespace, not allowed in Anki tags', resolved);
+    }
+    if (!rules.has(tag)) {
+      rules.set(tag, { targets: targets.length ? targets : [tag], linum });
+      lines.set(tag, resolved);
+    }
+  }
+
+  const graph = mappingGraph(rules);
+  if (graph.cycles.length) {
+    const { tags, linums } = graph.cycles[0];
+    throw TagError.atMapping('MappingCycle', `Mapping cycle between ${tags.join(', ')} (lines ${linums.join(', ')})`, lines.get(tags[0])!);
+  }
+  return reduceChains(rules, graph);
+}
+
+// Rules by lowercase tag, the first of any differing only in case, built once per TagRules
+const rulesByKey = new WeakMap<TagRules, Map<string, TagRule>>();
+
+function ruleKeys(rules: TagRules): Map<string, TagRule> {
+  let byKey = rulesByKey.get(rules);
+  if (byKey === undefined) {
+    byKey = new Map();
+    for (const [tag, rule] of rules) {
+      if (!byKey.has(tag.toLowerCase())) {
+        byKey.set(tag.toLowerCase(), rule);
+      }
+    }
+    rulesByKey.set(rules, byKey);
+  }
+  return byKey;
+}
+
+// Rewrites a note's list of tags by the rules, in one step, so a rule's targets are not rewritten again
+//
+// Tags match rules case-insensitively, as Anki compares them
+// Tags without a rule, or whose rule keeps them, are kept as-is
+// Output keeps the original order (with targets of a tag in order), dropping duplicates (from merged tags) after their
+// first occurrence
+export function applyMapping(rules: TagRules, tags: Iterable<string>): AppliedTags {
+  const result = new Set<string>(), changes: TagChange[] = new Array(), byKey = ruleKeys(rules);
+
+  for (const tag of tags) {
+    const rule = byKey.get(tag.toLowerCase());
+    if (rule === undefined || (rule.targets.length === 1 && rule.targets[0].toLowerCase() === tag.toLowerCase())) {
+      result.add(tag);
+    } else {
+      rule.targets.forEach((target) => result.add(target));
+      changes.push({ from: tag, to: rule.targets, linum: rule.linum });
+    }
+  }
+
+  return { tags: Array.from(result), changes };
+}
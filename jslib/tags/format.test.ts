@@ -0,0 +1,119 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import type { Arbitrary } from 'fast-check';
+import { parse, parseCollect, parseDefault, type TagMapping } from '#tags/parseLine';
+import { lex } from '#tags/lexWsOnly';
+import { arbInput } from '#tags/parseLine.arbitrary';
+import { format, type FormatNode, type FormatOptions } from '#tags/format';
+import { buildTree } from '#tags/tree';
+
+test('empty forest formats as empty', () => {
+  expect(format([])).toBe('');
+});
+
+const tree = buildTree(parseDefault('a x\n  b\n    c   y z\n  d\ne\n'));
+
+test('canonical format uses indent per level and single space separator', () => {
+  expect(format(tree)).toBe('a x\n  b\n    c y z\n  d\ne\n');
+  expect(format(tree, { indent: 'tab', newline: '\r\n' })).toBe('a x\r\n\tb\r\n\t\tc y z\r\n\td\r\ne\r\n');
+  expect(format(tree, { indent: 1 })).toBe('a x\n b\n  c y z\n d\ne\n');
+  for (const indent of [0, -1, 1.5, NaN]) {
+    expect(() => format(tree, { indent })).toThrowError(`Invalid indent ${indent}`);
+  }
+});
+
+test('preserve mode reuses original whitespace', () => {
+  const original = '\na\t x\n\n\t b\n\t \tc  y\t\n\t d\r\ne\n';
+  const tree = buildTree(parseDefault(original));
+  expect(format(tree, { original })).toBe('\na\t x\n\n\t b\n\t \tc  y\n\t d\ne\n');
+  expect(format(tree, { original, trivia: false })).toBe('a\t x\n\t b\n\t \tc  y\n\t d\ne\n');
+});
+
+test('preserve mode falls back to siblings and parent for new or moved nodes', () => {
+  const original = 'a\n\tb\n\t\tc\n';
+  const tree = buildTree(parseDefault(original));
+  const [a] = tree, [b] = a.children, [c] = b.children;
+  // move c up to be sibling of b, and add new child to c
+  const moved: FormatNode = { ...c, children: [{ label: 'n', mapping: 'm', children: [] }] };
+  const forest: FormatNode[] = [{ ...a, children: [moved, { ...b, children: [] }] }];
+  expect(format(forest, { original, indent: 2 })).toBe('a\n\tc\n\t  n m\n\tb\n');
+});
+
+function pick(result: TagMapping[]) {
+  return result.map(({ nesting, label, mapping }) => ({ nesting, label, mapping }));
+}
+
+const arbOptions: Arbitrary<FormatOptions> = fc.record({
+  indent: fc.oneof(fc.constant('tab' as const), fc.integer({ min: 1, max: 4 })),
+  newline: fc.constantFrom('\n', '\r\n', '\r', '\u2028'),
+});
+
+test('canonical format round-trips through parse', () => {
+  fc.assert(
+    fc.property(arbInput, arbOptions, ([_tree, str, lexOut], options) => {
+      const result = Array.from(parse(str, lexOut));
+      const formatted = format(buildTree(result), { ...options, quotes: true });
+      const reparsed = Array.from(parse(formatted, lex(formatted, 0, { quotes: true })));
+      expect(pick(reparsed)).toEqual(pick(result));
+
+      // now with real whitespace, preserving is exact
+      expect(format(buildTree(reparsed), { original: formatted, quotes: true })).toBe(formatted.replaceAll(options.newline!, '\n'));
+    }),
+  );
+});
+
+test('preserve mode keeps every original line up to the mapping', () => {
+  fc.assert(
+    fc.property(arbInput, ([_tree, str, lexOut]) => {
+      const result = Array.from(parse(str, lexOut));
+      const expected = result.map(({ line, label, mapping, labelSpan, mappingSpan }) => {
+        // label and mapping as canonically quoted
+        const labelText = format([{ label, mapping: null, children: [] }], { quotes: true }).slice(0, -1);
+        const mappingText = format([{ label, mapping, children: [] }], { quotes: true }).slice(labelText.length + 1, -1);
+        return str.substring(line.start, labelSpan.start) + labelText +
+          (mappingSpan !== null ? str.substring(labelSpan.end, mappingSpan.start) + mappingText : '') + '\n';
+      }).join('');
+      expect(format(buildTree(result), { original: str, trivia: false, quotes: true })).toBe(expected);
+    }),
+  );
+});
+
+test('quotes option quotes labels with whitespace and escapes quotes', () => {
+  const forest: FormatNode[] = [{ label: 'Cell Biology', mapping: 'a"b', children: [{ label: 'x"\\', mapping: ' y', children: [] }] }];
+  expect(format(forest, { quotes: true })).toBe('"Cell Biology" a\\"b\n  x\\"\\ " y"\n');
+  expect(format([{ label: '', mapping: '', children: [] }], { quotes: true })).toBe('"" ""\n');
+});
+
+test('trivia prints comments and blank lines in place', () => {
+  const original = '# head\n\na\t x  # why\n\t# inner\n\n\tb\\#\n# tail\n';
+  const tree = buildTree(parse(original, lex(original, 0, { comments: true })));
+  expect(format(tree, { original, comments: true })).toBe(original);
+  expect(format(tree, { comments: true })).toBe('# head\n\na x # why\n# inner\n\n  b\\#\n  # tail\n');
+  expect(format(tree, { trivia: false })).toBe('a x\n  b#\n');
+});
+
+test('format with comments and quotes round-trips trivia through parse', () => {
+  fc.assert(
+    fc.property(
+      fc.string({ unit: fc.constantFrom('a', 'b', ' ', '\t', '\n', '\r\n', '\n ', '#', '\\', '"'), maxLength: 40 }),
+      (str) => {
+        const options = { comments: true, quotes: true };
+        const { mappings, diagnostics } = parseCollect(str, lex(str, 0, options));
+        fc.pre(diagnostics.length === 0);
+        const formatted = format(buildTree(mappings), options);
+        const reparsed = Array.from(parse(formatted, lex(formatted, 0, options)));
+        function texts(result: TagMapping[]) {
+          return result.map(({ nesting, label, mapping, trivia }) => ({ nesting, label, mapping, trivia: trivia && {
+            leading: trivia.leading.map((c) => c?.text ?? null),
+            trailing: trivia.trailing?.text ?? null,
+            after: trivia.after.map((c) => c?.text ?? null),
+          } }));
+        }
+        expect(texts(reparsed)).toEqual(texts(mappings));
+      },
+    ),
+  );
+});
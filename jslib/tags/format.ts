@@ -0,0 +1,135 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import type { Span } from '#types';
+import type { TagComment, TagTrivia, TriviaLine } from '#tags/parseLine';
+import { re_whitespace } from '#tags/resolve';
+
+// Minimal tree shape for formatting, which a TagNode from buildTree() satisfies
+// Position fields are only used to preserve whitespace from FormatOptions.original
+export interface FormatNode {
+  label: string,
+  mapping: string | null,
+  children: FormatNode[],
+  nesting?: number,
+  line?: Span,
+  labelSpan?: Span,
+  mappingSpan?: Span | null,
+  trivia?: TagTrivia,
+  conflict?: FormatConflict, // printed instead of label and mapping
+}
+
+// Unresolved merge conflict on a node (see merge()): its mapping on each side, or null if deleted there
+export interface FormatConflict {
+  ours: { mapping: string | null } | null,
+  theirs: { mapping: string | null } | null,
+}
+
+export interface FormatOptions {
+  indent?: 'tab' | number, // one nesting level, as a tab or a number of spaces (at least 1, else throws); default 2 spaces
+  newline?: string, // after every line, including the last; default '\n'
+  original?: string | null, // raw string the nodes were parsed from, to reuse its whitespace; default none
+  trivia?: boolean, // print comments and blank lines; default on
+  comments?: boolean, // escape '#' in labels and mappings, for lex() with comments; default off
+  quotes?: boolean, // escape '"' in labels and mappings, and quote them if needed, for lex() with quotes; default off
+  conflictNames?: [string, string], // after the opening and closing conflict markers; default 'ours', 'theirs'
+}
+
+// Prints a forest of labels and mappings in the line format parse() reads
+//
+// Each line is leading whitespace for nesting, label, then (if any) a separator and mapping
+// With quotes, a label that is empty or contains whitespace, or a mapping that is empty or starts or ends with whitespace,
+// is quoted whole
+// Canonical whitespace is the indent repeated per nesting level, and a single space separator
+// With the original string, each node with a position reuses its original leading whitespace and separator, where
+// - the leading whitespace is still at the same nesting level, and
+// - it extends the parent's and is the same as all siblings' (else parse() would read different nesting)
+// So all siblings share the first usable original leading whitespace among them, else indent from their parent
+//
+// Trivia is printed in place: blank lines are empty, full-line comments are indented as the preceding mapping (at
+// top-level if none), and a trailing comment follows a single space; with the original string, comments reuse
+// their original preceding whitespace instead
+//
+// A conflict is printed as git does, with each side's line (if any) between markers, and no trailing comment
+export function format(roots: Iterable<FormatNode>, options: FormatOptions = {}): string {
+  const { indent = 2, newline = '\n', original = null, trivia = true, comments = false, quotes = false } = options;
+  const { conflictNames: [oursName, theirsName] = ['ours', 'theirs'] } = options;
+  // no indent would flatten the hierarchy
+  if (indent !== 'tab' && !(Number.isInteger(indent) && indent >= 1)) {
+    throw new Error(`Invalid indent ${indent}`);
+  }
+  const unit = indent === 'tab' ? '\t' : ' '.repeat(indent);
+  const lines: string[] = new Array();
+
+  function leadingWs(node: FormatNode, depth: number): string | null {
+    if (original === null || node.nesting !== depth || node.line === undefined || node.labelSpan === undefined) {
+      return null;
+    }
+    return original.substring(node.line.start, node.labelSpan.start);
+  }
+
+  function separator(node: FormatNode): string {
+    if (original === null || node.labelSpan === undefined || node.mappingSpan === undefined || node.mappingSpan === null) {
+      return ' ';
+    }
+    return original.substring(node.labelSpan.end, node.mappingSpan.start);
+  }
+
+  const re_special = new RegExp(`[${comments ? '#' : ''}${quotes ? '"' : ''}]`, 'gv');
+  function escape(text: string, quote: boolean): string {
+    if (quotes && quote) {
+      return '"' + text.replace(/[\\"]/gv, '\\$&') + '"';
+    }
+    return text.replace(re_special, '\\$&');
+  }
+
+  // Whitespace on the same line before a comment
+  function commentWs({ span }: TagComment, fallback: string): string {
+    if (original === null) {
+      return fallback;
+    }
+    let start = span.start;
+    while (start > 0 && /[\p{White_Space}--[\n\f\r\x85\u2028\u2029]]/v.test(original[start - 1])) {
+      start -= 1;
+    }
+    return original.substring(start, span.start);
+  }
+
+  function emitTrivia(lines_: TriviaLine[] | undefined, prefix: string) {
+    for (const comment of (trivia ? lines_ ?? [] : [])) {
+      lines.push((comment !== null ? commentWs(comment, prefix) + comment.text : '') + newline);
+    }
+  }
+
+  function emit(nodes: FormatNode[], depth: number, parentPrefix: string) {
+    function extendsParent(prefix: string | null): prefix is string {
+      return prefix !== null && (depth === 0 ? prefix === '' : prefix.length > parentPrefix.length && prefix.startsWith(parentPrefix));
+    }
+
+    // all siblings share the first usable original leading whitespace, if any
+    const siblingPrefix = nodes.map((node) => leadingWs(node, depth)).find(extendsParent) ??
+      (depth === 0 ? '' : parentPrefix + unit);
+    for (const node of nodes) {
+      emitTrivia(node.trivia?.leading, '');
+
+      const { label, conflict } = node;
+      function line(mapping: string | null): string {
+        return siblingPrefix + escape(label, label === '' || re_whitespace.test(label)) +
+          (mapping !== null ? separator(node) + escape(mapping, mapping === '' || /^\p{White_Space}|\p{White_Space}$/v.test(mapping)) : '');
+      }
+      if (conflict !== undefined) {
+        lines.push(`<<<<<<< ${oursName}${newline}`, ...(conflict.ours !== null ? [line(conflict.ours.mapping) + newline] : []),
+          `=======${newline}`, ...(conflict.theirs !== null ? [line(conflict.theirs.mapping) + newline] : []), `>>>>>>> ${theirsName}${newline}`);
+      } else {
+        const trailing = trivia ? node.trivia?.trailing ?? null : null;
+        lines.push(line(node.mapping) + (trailing !== null ? commentWs(trailing, ' ') + trailing.text : '') + newline);
+      }
+
+      emitTrivia(node.trivia?.after, siblingPrefix);
+      emit(node.children, depth + 1, siblingPrefix);
+    }
+  }
+
+  emit(Array.from(roots), 0, '');
+  return lines.join('');
+}
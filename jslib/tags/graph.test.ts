@@ -0,0 +1,71 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { applyMapping, compileMapping, type TagRules } from '#tags/apply';
+import { components, mappingGraph, reduceChains } from '#tags/graph';
+import { parseDefault, TagError } from '#tags/parseLine';
+import { withTargets } from '#tags/targets';
+
+function rulesOf(pairs: [string, string[]][]): TagRules {
+  return new Map(pairs.map(([tag, targets], i) => [tag, { targets, linum: i + 1 }]));
+}
+
+test('components come after the components they point into', () => {
+  const edges = new Map([[1, [2]], [2, [3, 1]], [3, [4]], [4, [3]], [5, [5, 1]]]);
+  expect(components(edges)).toEqual([[3, 4], [1, 2], [5]]);
+});
+
+test('graph reports cycles with every line', () => {
+  const rules = rulesOf([['a', ['b']], ['x', ['x']], ['b', ['c', 'y']], ['c', ['a']], ['d', ['d', 'e']], ['e', ['d']]]);
+  const { edges, cycles, order } = mappingGraph(rules);
+  expect(edges).toEqual(new Map([['a', ['b']], ['b', ['c', 'y']], ['c', ['a']], ['d', ['e']], ['e', ['d']]]));
+  expect(cycles).toEqual([{ tags: ['a', 'b', 'c'], linums: [1, 3, 4] }, { tags: ['d', 'e'], linums: [5, 6] }]);
+  expect(order.sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+});
+
+test('chains reduce to their final targets, applied in order', () => {
+  const rules = rulesOf([['a', ['b']], ['b', ['c', 'b']], ['c', ['d']], ['e', ['c', 'd']], ['f', ['f']]]);
+  const graph = mappingGraph(rules);
+  expect(graph.cycles).toEqual([]);
+  expect(graph.order).toEqual(['c', 'b', 'a', 'e']);
+  expect(reduceChains(rules)).toEqual(rulesOf([['a', ['d', 'b']], ['b', ['d', 'b']], ['c', ['d']], ['e', ['d']], ['f', ['f']]]));
+});
+
+test('compiled mappings follow chains, and throw on cycles', () => {
+  const rules = compileMapping(parseDefault('Bio Biology\nBiology Science::Biology\n'));
+  expect(applyMapping(rules, ['Bio', 'Biology'])).toEqual({
+    tags: ['Science::Biology'],
+    changes: [
+      { from: 'Bio', to: ['Science::Biology'], linum: 1 },
+      { from: 'Biology', to: ['Science::Biology'], linum: 2 },
+    ],
+  });
+
+  const str = 'a b\nx\n  y a\nb x::y\n';
+  expect(() => compileMapping(withTargets(str, parseDefault(str)))).toThrowError(new TagError({
+    code: 'MappingCycle',
+    message: 'Mapping cycle between a, x::y, b (lines 1, 3, 4) at line {1}: {a}',
+    linum: 1,
+    line: { start: 0, end: 4 },
+    span: { start: 0, end: 3 },
+    column: { start: 0, end: 3 },
+    columns: { utf16: { start: 0, end: 3 }, codePoint: { start: 0, end: 3 }, grapheme: { start: 0, end: 3 } },
+    indent: null,
+  }));
+});
+
+const tag = fc.constantFrom('a', 'b', 'c', 'd', 'e');
+
+test('applying reduced rules is idempotent', () => {
+  fc.assert(
+    fc.property(fc.uniqueArray(fc.tuple(tag, fc.uniqueArray(tag, { minLength: 1 })), { selector: ([tag]) => tag }), fc.uniqueArray(tag), (pairs, tags) => {
+      const rules = rulesOf(pairs), graph = mappingGraph(rules);
+      fc.pre(!graph.cycles.length);
+      const reduced = reduceChains(rules, graph);
+      const once = applyMapping(reduced, tags).tags;
+      expect(applyMapping(reduced, once).tags).toEqual(once);
+    }),
+  );
+});
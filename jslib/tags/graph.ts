@@ -0,0 +1,95 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { devAssert } from '#util';
+import type { TagRules } from '#tags/apply';
+
+// Strongly connected components of a directed graph, by Tarjan's algorithm
+// Every component comes after all components it has edges into, so sinks first; self-edges are ignored
+export function components<K>(edges: Map<K, Iterable<K>>): K[][] {
+  const result: K[][] = new Array();
+  // DFS index and lowest reachable index of each visited node; stack of nodes in unfinished components
+  const index = new Map<K, number>(), low = new Map<K, number>(), stack: K[] = new Array(), onStack = new Set<K>();
+
+  function visit(node: K) {
+    index.set(node, index.size);
+    low.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of edges.get(node) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(node, Math.min(low.get(node)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(node, Math.min(low.get(node)!, index.get(next)!));
+      }
+    }
+
+    if (low.get(node) === index.get(node)) {
+      const component: K[] = new Array();
+      let top;
+      do {
+        top = stack.pop()!;
+        onStack.delete(top);
+        component.push(top);
+      } while (top !== node);
+      result.push(component.reverse());
+    }
+  }
+
+  for (const node of edges.keys()) {
+    if (!index.has(node)) {
+      visit(node);
+    }
+  }
+  return result;
+}
+
+export interface MappingCycle {
+  tags: string[], // in line order
+  linums: number[], // line of the rule for each tag
+}
+
+export interface MappingGraph {
+  edges: Map<string, string[]>, // targets of each tag renamed by a rule, excluding itself
+  cycles: MappingCycle[], // in line order of their first tag
+  order: string[], // renamed tags, each after every tag it maps to (see components()), which is unordered within cycles
+}
+
+// Directed graph of tag -> target edges of the rules (see compileMapping()), where labels without mapping have none
+// A tag kept among its own targets (e.g. 'a a b') is not a cycle
+export function mappingGraph(rules: TagRules): MappingGraph {
+  const edges = new Map<string, string[]>();
+  for (const [tag, { targets }] of rules) {
+    if (targets.length !== 1 || targets[0] !== tag) {
+      edges.set(tag, targets.filter((target) => target !== tag));
+    }
+  }
+
+  const cycles: MappingCycle[] = new Array(), order: string[] = new Array();
+  for (const component of components(edges)) {
+    order.push(...component.filter((tag) => edges.has(tag)));
+    if (component.length > 1) {
+      const tags = component.sort((a, b) => rules.get(a)!.linum - rules.get(b)!.linum);
+      cycles.push({ tags, linums: tags.map((tag) => rules.get(tag)!.linum) });
+    }
+  }
+  cycles.sort((a, b) => a.linums[0] - b.linums[0]);
+  return { edges, cycles, order };
+}
+
+// Follows each chain of rules (e.g. 'a' -> 'b' -> 'c') to its final targets (so 'a' -> 'c'), so applying is idempotent
+// A tag kept among its own targets stays there; targets stay in order, dropping duplicates after their first occurrence
+// Graph must have no cycles (see mappingGraph())
+export function reduceChains(rules: TagRules, { cycles, order }: MappingGraph = mappingGraph(rules)): TagRules {
+  devAssert(!cycles.length);
+  const reduced: TagRules = new Map(rules);
+  // targets come first in order, so are already final
+  for (const tag of order) {
+    const rule = rules.get(tag)!;
+    const targets = new Set(rule.targets.flatMap((target) => target !== tag ? reduced.get(target)?.targets ?? [target] : [target]));
+    reduced.set(tag, { ...rule, targets: Array.from(targets) });
+  }
+  return reduced;
+}
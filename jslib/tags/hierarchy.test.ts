@@ -0,0 +1,176 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import type { Arbitrary } from 'fast-check';
+import { format, type FormatNode } from '#tags/format';
+import { fromJson, fromYaml, toJson, toYaml } from '#tags/hierarchy';
+import { lex } from '#tags/lexWsOnly';
+import { parse, parseDefault, TagError } from '#tags/parseLine';
+import { arbInput } from '#tags/parseLine.arbitrary';
+import { buildTree, type TagNode } from '#tags/tree';
+
+interface Shape {
+  label: string,
+  mapping: string | null,
+  children: Shape[],
+}
+
+function shape(nodes: FormatNode[]): Shape[] {
+  return nodes.map(({ label, mapping, children }) => ({ label, mapping, children: shape(children) }));
+}
+
+function hasDuplicates(nodes: TagNode[]): boolean {
+  return new Set(nodes.map(({ label }) => label)).size < nodes.length || nodes.some(({ children }) => hasDuplicates(children));
+}
+
+function hasEmpty(nodes: TagNode[]): boolean {
+  return nodes.some(({ label, mapping, children }) => label === '' || mapping === '' || hasEmpty(children));
+}
+
+const options = { quotes: true, comments: true };
+
+// Through the line format, as parse() reads it
+function reparse(nodes: FormatNode[]): TagNode[] {
+  const str = format(nodes, options);
+  return buildTree(parse(str, lex(str, 0, options)));
+}
+
+const tree = buildTree(parseDefault('Biology\n  Cell Cytology\n  10 Ten\n  9\nPlants Botany\n  Trees\n'));
+
+test('labels are keys in line order, with a pair for both a mapping and children', () => {
+  expect(toJson(tree)).toBe(`{
+  "Biology": {
+    "Cell": "Cytology",
+    "10": "Ten",
+    "9": null
+  },
+  "Plants": ["Botany", {
+    "Trees": null
+  }]
+}
+`);
+  expect(toJson([], 4)).toBe('{}\n');
+  expect(toYaml(tree)).toBe(`Biology:
+  Cell: Cytology
+  "10": Ten
+  "9": null
+Plants:
+  - Botany
+  - Trees: null
+`);
+  expect(shape(fromJson(toJson(tree)))).toEqual(shape(tree));
+  expect(shape(fromYaml(toYaml(tree)))).toEqual(shape(tree));
+});
+
+test('keys and values are read as written', () => {
+  const yaml = 'Biology:\n  Cell: Cytology\n  1.0: true\n  Empty:\n  Leaf: {}\n"#x": "a b"\nPlants: [Botany, {Trees: ~}]\n';
+  expect(shape(fromYaml(yaml))).toEqual([
+    { label: 'Biology', mapping: null, children: [
+      { label: 'Cell', mapping: 'Cytology', children: [] },
+      { label: '1.0', mapping: 'true', children: [] },
+      { label: 'Empty', mapping: null, children: [] },
+      { label: 'Leaf', mapping: null, children: [] },
+    ] },
+    { label: '#x', mapping: 'a b', children: [] },
+    { label: 'Plants', mapping: 'Botany', children: [{ label: 'Trees', mapping: null, children: [] }] },
+  ]);
+  expect(format(fromYaml(yaml), options)).toBe('Biology\n  Cell Cytology\n  1.0 true\n  Empty\n  Leaf\n\\#x a b\nPlants Botany\n  Trees\n');
+  expect(fromYaml('')).toEqual([]);
+});
+
+test('anything not in the nested form throws at its line', () => {
+  const error = (text: string) => {
+    try {
+      fromYaml(text);
+    } catch (e) {
+      expect(e).toBeInstanceOf(TagError);
+      const { code, linum, message } = e as TagError;
+      return [code, linum, message];
+    }
+    return null;
+  };
+  expect(error('a: 1\na: 2\n')).toEqual(['DuplicateLabel', 2, 'Map keys must be unique at line {2}: {a: 2}']);
+  expect(error('- a\n')).toEqual(['InvalidHierarchy', 1, 'Expected a map from labels to mappings and children at line {1}: {- a}']);
+  expect(error('a:\n  b: [x]\n')?.slice(0, 2)).toEqual(['InvalidHierarchy', 2]);
+  expect(error('a:\n  b: [~, {}]\n')?.slice(0, 2)).toEqual(['InvalidHierarchy', 2]);
+  expect(error('a:\n  b: [x, y]\n')?.slice(0, 2)).toEqual(['InvalidHierarchy', 2]);
+  expect(error('a:\n  "b\\nc": x\n')).toEqual(['InvalidHierarchy', 2, 'Label contains a line break at line {2}: {  "b\\nc": x}']);
+  expect(error('a: "x\\r"\r\n')).toEqual(['InvalidHierarchy', 1, 'Mapping contains a line break at line {1}: {a: "x\\r"}']);
+  expect(() => fromYaml('a:\n  "": x\n')).toThrowError(expect.objectContaining({
+    code: 'InvalidHierarchy', message: 'Label is empty at line {2}: {  "": x}', linum: 2, column: { start: 2, end: 4 },
+  }));
+  expect(() => fromYaml('a: [\'\', {b: c}]\n')).toThrowError(expect.objectContaining({
+    code: 'InvalidHierarchy', message: 'Mapping is empty at line {1}: {a: [\'\', {b: c}]}', linum: 1, column: { start: 4, end: 6 },
+  }));
+  expect(error('a: ""\n')).toEqual(['InvalidHierarchy', 1, 'Mapping is empty at line {1}: {a: ""}']);
+  expect(error('? [a]\n: b\n')?.slice(0, 2)).toEqual(['InvalidHierarchy', 1]);
+  expect(error('~: b\n')?.slice(0, 2)).toEqual(['InvalidHierarchy', 1]);
+  expect(error('a: [b\n')?.[0]).toBe('InvalidHierarchy');
+
+  expect(() => fromJson('{\n  "\u{1F600}": 1, "a": [}\n')).toThrowError(expect.objectContaining({
+    code: 'InvalidHierarchy', linum: 2, column: { start: 17, end: 18 }, columns: expect.objectContaining({ codePoint: { start: 16, end: 17 } }),
+  }));
+});
+
+test('duplicate sibling labels cannot be keys', () => {
+  const duplicate = buildTree(parseDefault('a\n  b x\n  c\n  b y\n'));
+  for (const convert of [toJson, toYaml]) {
+    expect(() => convert(duplicate)).toThrowError(expect.objectContaining({ code: 'DuplicateLabel', linum: 4 }));
+  }
+});
+
+test('arbitrary tree round-trips through JSON and YAML, unless siblings share a label or one is empty', () => {
+  fc.assert(
+    fc.property(arbInput, ([_tree, str, lexOut]) => {
+      const roots = buildTree(parse(str, lexOut));
+      if (hasDuplicates(roots)) {
+        expect(() => toJson(roots)).toThrowError(TagError);
+        expect(() => toYaml(roots)).toThrowError(TagError);
+        return;
+      }
+      // quoted in the line format, but not a label or mapping in the nested form
+      if (hasEmpty(roots)) {
+        expect(() => fromJson(toJson(roots))).toThrowError(expect.objectContaining({ code: 'InvalidHierarchy' }));
+        expect(() => fromYaml(toYaml(roots))).toThrowError(expect.objectContaining({ code: 'InvalidHierarchy' }));
+        return;
+      }
+      const json = fromJson(toJson(roots)), yaml = fromYaml(toYaml(roots));
+      expect(shape(json)).toEqual(shape(roots));
+      expect(shape(yaml)).toEqual(shape(roots));
+      expect(shape(reparse(json))).toEqual(shape(roots));
+    }),
+  );
+});
+
+// Labels and mappings that YAML would read as something else unless quoted
+const arbText: Arbitrary<string> = fc.string({
+  unit: fc.constantFrom('a', '1', '.', ' ', '\u3000', '\u{10300}', ':', '-', '#', '"', '\'', '[', '{', '&', '*', '!', '%', '@', '`', 'null', '~', 'true', 'e'),
+  minLength: 1,
+  maxLength: 4,
+});
+
+const depthIdentifier = fc.createDepthIdentifier();
+
+const arbForest: Arbitrary<FormatNode[]> = fc.letrec((r) => ({
+  forest: fc.uniqueArray(
+    fc.record({
+      label: arbText,
+      mapping: fc.option(arbText),
+      children: fc.oneof({ maxDepth: 3, depthIdentifier }, fc.constant<FormatNode[]>([]), r('forest') as Arbitrary<FormatNode[]>),
+    }),
+    { maxLength: 3, selector: ({ label }) => label },
+  ),
+})).forest;
+
+test('labels and mappings YAML would read otherwise round-trip', () => {
+  fc.assert(
+    fc.property(arbForest, (forest) => {
+      const roots = reparse(forest);
+      expect(shape(roots)).toEqual(shape(forest));
+      expect(shape(fromYaml(toYaml(roots)))).toEqual(shape(forest));
+      expect(shape(fromJson(toJson(roots, 0)))).toEqual(shape(forest));
+    }),
+  );
+});
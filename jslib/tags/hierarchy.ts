@@ -0,0 +1,151 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { Document, isMap, isScalar, isSeq, parseDocument, Pair, Scalar, YAMLMap, YAMLSeq, type Node } from 'yaml';
+import type { Span } from '#types';
+import type { FormatNode } from '#tags/format';
+import { lex } from '#tags/lexWsOnly';
+import { TagError, type TagErrorCode } from '#tags/parseLine';
+import { columnSpans, positionIndex } from '#tags/position';
+import type { TagNode } from '#tags/tree';
+
+// Nested JSON/YAML form of a mapping file, as a map from each label (in line order) to its value:
+// - null: no mapping and no children
+// - string: its mapping, with no children
+// - map: its children, with no mapping
+// - [mapping, map]: both its mapping and its children
+// An empty map is the same as no children
+//
+// Sibling labels must be distinct, as keys are; comments, blank lines and whitespace are not kept
+// JSON is read as YAML, keeping keys in order (e.g. '10' after '9') as a JS object would not
+
+// Siblings as keys of a map
+function checkKeys(nodes: TagNode[]) {
+  const seen = new Map<string, TagNode>();
+  for (const node of nodes) {
+    const first = seen.get(node.label);
+    if (first !== undefined) {
+      throw TagError.atMapping('DuplicateLabel', `Duplicate of label at line ${first.linum}`, node);
+    }
+    seen.set(node.label, node);
+  }
+}
+
+// Throws TagError (DuplicateLabel) if any siblings have the same label
+export function toYaml(roots: TagNode[]): string {
+  function map(nodes: TagNode[]): YAMLMap {
+    checkKeys(nodes);
+    const yaml = new YAMLMap();
+    for (const node of nodes) {
+      yaml.items.push(new Pair(new Scalar(node.label), value(node)));
+    }
+    return yaml;
+  }
+  function value(node: TagNode): Node {
+    if (!node.children.length) {
+      return new Scalar(node.mapping);
+    } else if (node.mapping === null) {
+      return map(node.children);
+    }
+    const both = new YAMLSeq();
+    both.items.push(new Scalar(node.mapping), map(node.children));
+    return both;
+  }
+  return new Document(map(roots)).toString();
+}
+
+// Throws TagError (DuplicateLabel) if any siblings have the same label
+export function toJson(roots: TagNode[], indent: number = 2): string {
+  function map(nodes: TagNode[], depth: number): string {
+    checkKeys(nodes);
+    if (!nodes.length) {
+      return '{}';
+    }
+    const inner = ' '.repeat(indent * (depth + 1)), outer = ' '.repeat(indent * depth);
+    return `{\n${nodes.map((node) => `${inner}${JSON.stringify(node.label)}: ${value(node, depth + 1)}`).join(',\n')}\n${outer}}`;
+  }
+  function value(node: TagNode, depth: number): string {
+    if (!node.children.length) {
+      return JSON.stringify(node.mapping);
+    }
+    const children = map(node.children, depth);
+    return node.mapping === null ? children : `[${JSON.stringify(node.mapping)}, ${children}]`;
+  }
+  return map(roots, 0) + '\n';
+}
+
+// Error at a span of the JSON/YAML text, on its first line
+function hierarchyError(text: string, code: TagErrorCode, msg: string, { start, end }: Span): TagError {
+  // YAML breaks lines at '\n', '\r\n' and '\r' only
+  const index = positionIndex(text, lex(text, 0, { ascii: true })), { linum } = index.position(start);
+  const line = { start: index.offset(linum, 0), end: index.offset(linum + 1, 0) };
+  const span = { start, end: Math.max(start, Math.min(end, line.end)) }, column = { start: start - line.start, end: span.end - line.start };
+  const raw = text.substring(line.start, line.end), content = raw.replace(/\r?\n$|\r$/v, '');
+  return new TagError({
+    code,
+    message: `${msg} at line {${linum}}: {${content}}`,
+    linum,
+    line,
+    span,
+    column,
+    columns: columnSpans(raw, column),
+    indent: null,
+  });
+}
+
+// Forest of nodes for format(), from the nested form in JSON or YAML; format() with quotes for labels with whitespace
+// Throws TagError (DuplicateLabel, InvalidHierarchy) at the first key or value not in the nested form, or invalid YAML
+// Labels and mappings must be non-empty and on one line
+export function fromYaml(text: string): FormatNode[] {
+  const doc = parseDocument(text, { prettyErrors: false });
+  const [error] = doc.errors;
+  if (error !== undefined) {
+    throw hierarchyError(text, error.code === 'DUPLICATE_KEY' ? 'DuplicateLabel' : 'InvalidHierarchy', error.message, { start: error.pos[0], end: error.pos[1] });
+  }
+
+  function invalid(msg: string, node: Node): never {
+    const [start, end] = node.range!;
+    throw hierarchyError(text, 'InvalidHierarchy', msg, { start, end });
+  }
+  // Label or mapping, as written rather than as YAML reads it, e.g. '1.0' rather than 1
+  function scalarText(node: Scalar, what: string): string {
+    const str = String(node.source);
+    if (/[\n\f\r\x85\u2028\u2029]/v.test(str)) {
+      invalid(`${what} contains a line break`, node);
+    }
+    if (!str.length) {
+      invalid(`${what} is empty`, node);
+    }
+    return str;
+  }
+  function isNull(node: unknown): boolean {
+    return node === null || (isScalar(node) && node.value === null);
+  }
+  function children(node: Node): FormatNode[] {
+    if (!isMap(node)) {
+      invalid('Expected a map from labels to mappings and children', node);
+    }
+    return node.items.map(({ key, value }): FormatNode => {
+      if (!isScalar(key) || isNull(key)) {
+        invalid('Expected a label', key as Node);
+      }
+      const label = scalarText(key, 'Label');
+      if (isNull(value)) {
+        return { label, mapping: null, children: [] };
+      } else if (isScalar(value)) {
+        return { label, mapping: scalarText(value, 'Mapping'), children: [] };
+      } else if (isMap(value)) {
+        return { label, mapping: null, children: children(value) };
+      } else if (isSeq(value) && value.items.length === 2 && isScalar(value.items[0]) && !isNull(value.items[0])) {
+        return { label, mapping: scalarText(value.items[0], 'Mapping'), children: children(value.items[1] as Node) };
+      }
+      invalid('Expected null, a mapping, a map of children, or [mapping, map of children]', value as Node);
+    });
+  }
+  return doc.contents === null ? [] : children(doc.contents);
+}
+
+// JSON is YAML, see fromYaml()
+export function fromJson(text: string): FormatNode[] {
+  return fromYaml(text);
+}
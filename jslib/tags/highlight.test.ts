@@ -0,0 +1,38 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { highlightRuns, semanticTokens } from '#tags/highlight';
+import { parseFull } from '#tags/incremental';
+
+test('lines are classified by their parse', () => {
+  const str = 'a  b c  # x\n  "d e"\t\n \n# y\n"f\n';
+  const kinds = semanticTokens(str, { comments: true, quotes: true })
+    .map(({ kind, span: { start, end }, nesting }) => [kind, str.substring(start, end), nesting]);
+  expect(kinds).toEqual([
+    ['label', 'a', 0], ['separator', '  ', 0], ['mapping', 'b c', 0], ['separator', '  ', 0], ['comment', '# x', 0],
+    ['indentation', '  ', 1], ['label', '"d e"', 1], ['trailing', '\t', 1],
+    ['trailing', ' ', null],
+    ['comment', '# y', null],
+    ['invalid', '"f', null],
+  ]);
+});
+
+test('runs cover the string, with every non-newline token classified', () => {
+  fc.assert(
+    fc.property(
+      fc.string({ unit: fc.constantFrom('a', 'b', ' ', '\t', '\n', '\r\n', '#', '"', '\\'), maxLength: 40 }),
+      fc.boolean(),
+      fc.boolean(),
+      (str, comments, quotes) => {
+        const tokens = semanticTokens(str, { comments, quotes }), runs = highlightRuns(str, tokens);
+        expect(runs.map(({ text }) => text).join('')).toBe(str);
+        for (const { kind, text } of runs) {
+          expect(kind === null).toBe(/^[\r\n]+$/v.test(text));
+        }
+        expect(tokens.filter(({ kind }) => kind === 'label')).toHaveLength(parseFull(str, { comments, quotes }).mappings.length);
+      },
+    ),
+  );
+});
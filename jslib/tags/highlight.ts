@@ -0,0 +1,98 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import type { Span } from '#types';
+import { parseFull, type ParseState } from '#tags/incremental';
+import type { LexOptions } from '#tags/lexWsOnly';
+
+export type SemanticKind =
+  | 'indentation' // leading whitespace of a line with content
+  | 'label'
+  | 'mapping' // all targets, including whitespace between them
+  | 'separator' // whitespace between label, mapping and comment
+  | 'trailing' // whitespace at end of line, or a whitespace-only line
+  | 'comment'
+  | 'invalid'; // content of a line skipped for a parse error
+
+export interface SemanticToken {
+  kind: SemanticKind,
+  span: Span,
+  nesting: number | null, // of the mapping on the token's line, null on lines without one
+}
+
+// Run of text for rendering, with the kind of its token, or null outside any (newlines)
+export interface HighlightRun {
+  kind: SemanticKind | null,
+  nesting: number | null,
+  text: string,
+}
+
+function contains(span: Span, { start, end }: Span): boolean {
+  return span.start <= start && end <= span.end;
+}
+
+// Classifies the tokens of a parse, in order, merging the tokens of each label and mapping
+// Newlines are not classified
+export function classify({ tokens, mappings }: ParseState): SemanticToken[] {
+  const lines = new Map(mappings.map((m) => [m.line.start, m]));
+  const result: SemanticToken[] = new Array();
+
+  for (let begin = 0, end; begin < tokens.length; begin = end + 1) {
+    for (end = begin; end < tokens.length && tokens[end].tag !== 'nl'; end++);
+    const m = lines.get(tokens[begin].start), nesting = m?.nesting ?? null;
+    // index after the last token other than whitespace
+    let content = end;
+    while (content > begin && tokens[content - 1].tag === 'ws') {
+      content -= 1;
+    }
+
+    for (let i = begin; i < end; i++) {
+      const token = tokens[i];
+      // tokens of a label or mapping are merged into one, at its first
+      const merged = m === undefined ? null
+        : contains(m.labelSpan, token) ? { kind: 'label' as const, span: m.labelSpan }
+        : m.mappingSpan !== null && contains(m.mappingSpan, token) ? { kind: 'mapping' as const, span: m.mappingSpan }
+        : null;
+      if (merged !== null) {
+        if (merged.span.start === token.start) {
+          result.push({ ...merged, nesting });
+        }
+        continue;
+      }
+
+      let kind: SemanticKind;
+      if (token.tag === 'comment') {
+        kind = 'comment';
+      } else if (token.tag !== 'ws') {
+        kind = 'invalid';
+      } else if (i >= content) {
+        kind = 'trailing';
+      } else {
+        kind = i === begin ? 'indentation' : 'separator';
+      }
+      result.push({ kind, span: { start: token.start, end: token.end }, nesting });
+    }
+  }
+  return result;
+}
+
+export function semanticTokens(str: string, options: LexOptions = {}): SemanticToken[] {
+  return classify(parseFull(str, options));
+}
+
+// Splits str into runs covering it exactly, for rendering e.g. as HTML spans or terminal colours
+export function highlightRuns(str: string, tokens: Iterable<SemanticToken>): HighlightRun[] {
+  const runs: HighlightRun[] = new Array();
+  let offset = 0;
+  for (const { kind, span, nesting } of tokens) {
+    if (offset < span.start) {
+      runs.push({ kind: null, nesting: null, text: str.substring(offset, span.start) });
+    }
+    runs.push({ kind, nesting, text: str.substring(span.start, span.end) });
+    offset = span.end;
+  }
+  if (offset < str.length) {
+    runs.push({ kind: null, nesting: null, text: str.substring(offset) });
+  }
+  return runs;
+}
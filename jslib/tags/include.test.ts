@@ -0,0 +1,139 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { compileMapping } from '#tags/apply';
+import { fetchResolver, memoryResolver, parseIncludes, parseWithIncludes, type IncludedMapping } from '#tags/include';
+import { lex } from '#tags/lexWsOnly';
+import { parseCollect, TagError } from '#tags/parseLine';
+
+function files(entries: Record<string, string>) {
+  return memoryResolver(new Map(Object.entries(entries)));
+}
+
+function lines(mappings: IncludedMapping[]) {
+  return mappings.map(({ file, linum, nesting, label, mapping }) => [file, linum, nesting, label, mapping]);
+}
+
+test('included lines nest at the level of the directive', async () => {
+  const resolver = files({
+    'main.txt': 'Biology\n  @include bio/cells.txt\n  Botany\n@include bio/chem.txt\n',
+    'bio/cells.txt': 'Cell\n\tNucleus Cytology\n@include ../top.txt\n',
+    'bio/chem.txt': 'Chemistry\n',
+    'top.txt': 'Top x\n',
+  });
+  const { mappings, diagnostics } = await parseIncludes('main.txt', resolver);
+  expect(diagnostics).toEqual([]);
+  expect(lines(mappings)).toEqual([
+    ['main.txt', 1, 0, 'Biology', null],
+    ['bio/cells.txt', 1, 1, 'Cell', null],
+    ['bio/cells.txt', 2, 2, 'Nucleus', 'Cytology'],
+    ['top.txt', 1, 1, 'Top', 'x'],
+    ['main.txt', 3, 1, 'Botany', null],
+    ['bio/chem.txt', 1, 0, 'Chemistry', null],
+  ]);
+  expect(mappings[3].chain).toEqual([{ file: 'main.txt', linum: 2 }, { file: 'bio/cells.txt', linum: 3 }]);
+  expect(Array.from(compileMapping(mappings).keys())).toEqual(['Biology', 'Biology::Cell', 'Biology::Cell::Nucleus', 'Biology::Top', 'Biology::Botany', 'Chemistry']);
+});
+
+test('only a bare @include label is a directive', async () => {
+  const resolver = files({ 'a.txt': '"@include" b.txt\n@include "b.txt"\n', 'b.txt': 'b\n' });
+  const mappings = await parseWithIncludes('a.txt', resolver, { quotes: true });
+  expect(lines(mappings)).toEqual([
+    ['a.txt', 1, 0, '@include', 'b.txt'],
+    ['b.txt', 1, 0, 'b', null],
+  ]);
+});
+
+test('a file may be included more than once, but not within itself', async () => {
+  const twice = await parseWithIncludes('a.txt', files({ 'a.txt': '@include b.txt\nx\n  @include b.txt\n', 'b.txt': 'b\n' }));
+  expect(lines(twice)).toEqual([['b.txt', 1, 0, 'b', null], ['a.txt', 2, 0, 'x', null], ['b.txt', 1, 1, 'b', null]]);
+
+  const resolver = files({ 'a.txt': 'a\n@include b.txt\n', 'b.txt': 'b\n  @include c.txt\n', 'c.txt': '@include a.txt\nc\n' });
+  const { mappings, diagnostics } = await parseIncludes('a.txt', resolver);
+  expect(lines(mappings)).toEqual([['a.txt', 1, 0, 'a', null], ['b.txt', 1, 0, 'b', null], ['c.txt', 2, 1, 'c', null]]);
+  expect(diagnostics).toEqual([{
+    code: 'IncludeCycle',
+    message: 'Include cycle a.txt -> b.txt -> c.txt -> a.txt at line {1}: {@include}',
+    linum: 1,
+    line: { start: 0, end: 15 },
+    span: { start: 9, end: 14 },
+    column: { start: 9, end: 14 },
+    columns: { utf16: { start: 9, end: 14 }, codePoint: { start: 9, end: 14 }, grapheme: { start: 9, end: 14 } },
+    indent: null,
+    chain: [{ file: 'a.txt', linum: 2 }, { file: 'b.txt', linum: 2 }, { file: 'c.txt', linum: 1 }],
+  }]);
+
+  const self = await parseIncludes('a.txt', files({ 'a.txt': '@include ./a.txt\n' }));
+  expect(self.diagnostics).toMatchObject([{ code: 'IncludeCycle', message: 'Include cycle a.txt -> a.txt at line {1}: {@include}' }]);
+});
+
+test('invalid directives are skipped as errors', async () => {
+  const resolver = files({ 'a.txt': '@include\n@include missing.txt\n@include b.txt\n  nested\n  more\nafter\n', 'b.txt': 'b\n' });
+  const { mappings, diagnostics } = await parseIncludes('a.txt', resolver);
+  expect(lines(mappings)).toEqual([['b.txt', 1, 0, 'b', null], ['a.txt', 6, 0, 'after', null]]);
+  expect(diagnostics.map(({ code, message, column }) => [code, message, column])).toEqual([
+    ['InvalidInclude', 'Include without a file at line {1}: {@include}', { start: 0, end: 8 }],
+    ['InvalidInclude', 'Cannot read \'missing.txt\': No such file \'missing.txt\' at line {2}: {@include}', { start: 9, end: 20 }],
+    ['InvalidInclude', 'Line nested under an include at line {4}: {nested}', { start: 0, end: 9 }],
+  ]);
+
+  await expect(parseIncludes('missing.txt', resolver)).rejects.toThrowError('No such file \'missing.txt\'');
+});
+
+test('errors carry the chain of includes, in text order', async () => {
+  const resolver = files({ 'a.txt': ' x\na\n  @include b.txt\nc\n  d\n e\n', 'b.txt': 'b\n   bad\n' });
+  const { mappings, diagnostics } = await parseIncludes('a.txt', resolver);
+  expect(lines(mappings)).toEqual([
+    ['a.txt', 2, 0, 'a', null], ['b.txt', 1, 1, 'b', null], ['b.txt', 2, 2, 'bad', null], ['a.txt', 4, 0, 'c', null], ['a.txt', 5, 1, 'd', null],
+  ]);
+  expect(diagnostics.map(({ code, chain }) => [code, chain])).toEqual([
+    ['FirstLineNotTopLevel', [{ file: 'a.txt', linum: 1 }]],
+    ['InconsistentWhitespace', [{ file: 'a.txt', linum: 6 }]],
+  ]);
+
+  const error = await parseWithIncludes('a.txt', files({ 'a.txt': 'a\n  @include b.txt\n', 'b.txt': 'b\n  c\n d\n' })).catch((e) => e);
+  expect(error).toBeInstanceOf(TagError);
+  expect(error).toMatchObject({ code: 'InconsistentWhitespace', linum: 3, chain: [{ file: 'a.txt', linum: 2 }, { file: 'b.txt', linum: 3 }] });
+
+  // and errors after parsing, at an included mapping
+  const cycle = await parseWithIncludes('a.txt', files({ 'a.txt': '@include b.txt\n\na b\n', 'b.txt': 'b a\n' }));
+  expect(() => compileMapping(cycle)).toThrowError(expect.objectContaining({
+    code: 'MappingCycle', linum: 1, chain: [{ file: 'a.txt', linum: 1 }, { file: 'b.txt', linum: 1 }],
+  }));
+});
+
+test('fetched files resolve as URLs', async () => {
+  const site: Record<string, string> = { 'https://x.org/m/a.txt': 'a\n  @include sub/b.txt\n', 'https://x.org/m/sub/b.txt': '@include /c.txt\n' };
+  const fetcher = async (url: string | URL | Request) =>
+    Object.hasOwn(site, String(url)) ? new Response(site[String(url)]) : new Response(null, { status: 404, statusText: 'Not Found' });
+  const resolver = fetchResolver('https://x.org/m/', fetcher);
+  const { mappings, diagnostics } = await parseIncludes('a.txt', resolver);
+  expect(lines(mappings)).toEqual([['https://x.org/m/a.txt', 1, 0, 'a', null]]);
+  expect(diagnostics).toMatchObject([{ message: 'Cannot read \'https://x.org/c.txt\': 404 Not Found at line {1}: {@include}' }]);
+
+  const bare = fetchResolver('https://x.org/', async () => new Response(null, { status: 500, statusText: '' }));
+  await expect(bare.read('https://x.org/a.txt')).rejects.toThrowError(/^500$/v);
+});
+
+test('an included file parses as it does alone, one level deeper', async () => {
+  await fc.assert(
+    fc.asyncProperty(
+      fc.string({ unit: fc.constantFrom('a', 'b', ' ', '\t', '\n', '\r\n', '\n ', '#', '\\', '"'), maxLength: 40 }),
+      async (str) => {
+        const options = { comments: true, quotes: true };
+        const alone = parseCollect(str, lex(str, 0, options));
+        const { mappings, diagnostics } = await parseIncludes('main.txt', files({ 'main.txt': 'x\n  @include in.txt\n', 'in.txt': str }), options);
+
+        expect(mappings[0]).toMatchObject({ file: 'main.txt', label: 'x' });
+        expect(mappings.slice(1)).toEqual(alone.mappings.map((m) => ({
+          ...m, nesting: m.nesting + 1, file: 'in.txt', chain: [{ file: 'main.txt', linum: 2 }],
+        })));
+        expect(diagnostics).toEqual(alone.diagnostics.map((d) => ({
+          ...d, chain: [{ file: 'main.txt', linum: 2 }, { file: 'in.txt', linum: d.linum }],
+        })));
+      },
+    ),
+  );
+});
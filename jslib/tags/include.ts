@@ -0,0 +1,176 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import type { Span } from '#types';
+import { lex, type LexOptions } from '#tags/lexWsOnly';
+import { parseCollect, TagError, type ParseResult, type TagDiagnostic, type TagErrorCode, type TagMapping } from '#tags/parseLine';
+import { columnSpans } from '#tags/position';
+
+// Label of an include directive line, '@include <path>', as written: a quoted or escaped '@include' is a plain label
+export const INCLUDE = '@include';
+
+// Where included files come from, e.g. memoryResolver(), fetchResolver(), or the file system in the CLI
+export interface FileResolver {
+  resolve(path: string, from: string | null): string, // file named by a path, from the including file (null for the root)
+  read(file: string): Promise<string>,
+}
+
+// Line of a file, in a chain of includes
+export interface IncludeSite {
+  file: string,
+  linum: number,
+}
+
+export interface IncludedMapping extends TagMapping {
+  file: string, // linum and spans are into this file
+  chain: IncludeSite[], // include directives it was included through, outermost first
+}
+
+export interface IncludeDiagnostic extends TagDiagnostic {
+  chain: IncludeSite[], // include directives leading to the error, outermost first, then the error itself
+}
+
+export interface IncludedFile {
+  text: string,
+  result: ParseResult, // of the file alone, with its include directives
+  chain: IncludeSite[], // include directives it was first included through, outermost first
+}
+
+export interface IncludeResult {
+  mappings: IncludedMapping[],
+  diagnostics: IncludeDiagnostic[],
+  files: Map<string, IncludedFile>, // each file read, by resolved name
+}
+
+export function isInclude(str: string, { label, labelSpan }: TagMapping): boolean {
+  return label === INCLUDE && str.substring(labelSpan.start, labelSpan.end) === INCLUDE;
+}
+
+// Files in memory by name, with paths resolved as relative URLs, so 'b.txt' from 'dir/a.txt' is 'dir/b.txt'
+export function memoryResolver(files: Map<string, string>): FileResolver {
+  return {
+    resolve: (path, from) => decodeURIComponent(new URL(path, `file:///${from ?? ''}`).pathname.substring(1)),
+    read: async (file) => {
+      const text = files.get(file);
+      if (text === undefined) {
+        throw new Error(`No such file '${file}'`);
+      }
+      return text;
+    },
+  };
+}
+
+// Files over HTTP, with paths resolved as URLs relative to base (for the root) or the including file
+export function fetchResolver(base: string | URL, fetcher: typeof fetch = fetch): FileResolver {
+  return {
+    resolve: (path, from) => new URL(path, from ?? base).href,
+    read: async (file) => {
+      const response = await fetcher(file);
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`.trimEnd());
+      }
+      return await response.text();
+    },
+  };
+}
+
+// Parses a mapping file with its includes, recovering from errors as parseCollect() does
+//
+// An include directive stands for the mappings of its file, in place, with that file's top level at the directive's
+// nesting; lines nested under the directive are skipped. Each file is parsed separately, so keeps its own indentation.
+// A file unreadable, or already open in the chain of includes (a cycle), is an error at its directive
+// Mappings and errors are in the order of the expanded text; the root file not readable throws
+export async function parseIncludes(path: string, resolver: FileResolver, options: LexOptions = {}): Promise<IncludeResult> {
+  const mappings: IncludedMapping[] = new Array(), diagnostics: IncludeDiagnostic[] = new Array();
+  // a file included more than once is parsed once
+  const parsed = new Map<string, IncludedFile>();
+
+  async function load(file: string, chain: IncludeSite[]): Promise<IncludedFile> {
+    let loaded = parsed.get(file);
+    if (loaded === undefined) {
+      const text = await resolver.read(file);
+      loaded = { text, result: parseCollect(text, lex(text, 0, options)), chain };
+      parsed.set(file, loaded);
+    }
+    return loaded;
+  }
+
+  function report(text: string, { linum, line, label }: TagMapping, code: TagErrorCode, msg: string, span: Span, chain: IncludeSite[]) {
+    const column = { start: span.start - line.start, end: span.end - line.start };
+    diagnostics.push({
+      code,
+      message: `${msg} at line {${linum}}: {${label}}`,
+      linum,
+      line,
+      span,
+      column,
+      columns: columnSpans(text.substring(line.start, line.end), column),
+      indent: null,
+      chain,
+    });
+  }
+
+  // chain: include directives leading to file; nesting: of the directive including it
+  async function expand(file: string, chain: IncludeSite[], nesting: number) {
+    const { text, result } = await load(file, chain);
+    let errors = 0;
+    function flush(linum: number) {
+      for (; errors < result.diagnostics.length && result.diagnostics[errors].linum < linum; errors++) {
+        const d = result.diagnostics[errors];
+        diagnostics.push({ ...d, chain: [...chain, { file, linum: d.linum }] });
+      }
+    }
+
+    // nesting of the last include directive, whose nested lines are skipped, reporting the first
+    let under: number | null = null, skipped = false;
+    for (const mapping of result.mappings) {
+      flush(mapping.linum);
+      const site = [...chain, { file, linum: mapping.linum }];
+      if (under !== null && mapping.nesting > under) {
+        if (!skipped) {
+          report(text, mapping, 'InvalidInclude', 'Line nested under an include', mapping.line, site);
+          skipped = true;
+        }
+        continue;
+      }
+      under = null;
+      if (!isInclude(text, mapping)) {
+        mappings.push({ ...mapping, nesting: nesting + mapping.nesting, file, chain });
+        continue;
+      }
+
+      under = mapping.nesting;
+      skipped = false;
+      if (mapping.mapping === null) {
+        report(text, mapping, 'InvalidInclude', 'Include without a file', mapping.labelSpan, site);
+        continue;
+      }
+      const included = resolver.resolve(mapping.mapping, file);
+      if (site.some((s) => s.file === included)) {
+        const files = [...site.map((s) => s.file), included].join(' -> ');
+        report(text, mapping, 'IncludeCycle', `Include cycle ${files}`, mapping.mappingSpan!, site);
+        continue;
+      }
+      try {
+        await load(included, site);
+      } catch (e) {
+        report(text, mapping, 'InvalidInclude', `Cannot read '${included}': ${(e as Error).message}`, mapping.mappingSpan!, site);
+        continue;
+      }
+      await expand(included, site, nesting + mapping.nesting);
+    }
+    flush(Infinity);
+  }
+
+  await expand(resolver.resolve(path, null), [], 0);
+  return { mappings, diagnostics, files: parsed };
+}
+
+// Throws TagError at the first error, with its chain of includes, see parseIncludes()
+export async function parseWithIncludes(path: string, resolver: FileResolver, options: LexOptions = {}): Promise<IncludedMapping[]> {
+  const { mappings, diagnostics } = await parseIncludes(path, resolver, options);
+  if (diagnostics.length) {
+    throw new TagError(diagnostics[0]);
+  }
+  return mappings;
+}
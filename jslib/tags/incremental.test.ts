@@ -0,0 +1,86 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import type { Arbitrary } from 'fast-check';
+import { parseFull, reparse, type TextEdit } from '#tags/incremental';
+import type { LexOptions } from '#tags/lexWsOnly';
+
+// Real whitespace and newlines (including pairs a CRLF edit can split or join), so edits change nesting and lines
+const arbText: Arbitrary<string> = fc.string({
+  unit: fc.constantFrom('a', 'b', String.fromCodePoint(0x10300), ' ', '  ', '\t', '\u3000', '\n', '\r', '\r\n', '\n  ', '#', '\\', '"'),
+  maxLength: 40,
+});
+
+const arbOptions: Arbitrary<LexOptions> = fc.record({ comments: fc.boolean(), quotes: fc.boolean() });
+
+function arbEdit(str: string): Arbitrary<TextEdit> {
+  return fc.integer({ min: 0, max: str.length }).chain((offset) => fc.record({
+    offset: fc.constant(offset),
+    deleted: fc.integer({ min: 0, max: str.length - offset }),
+    inserted: arbText,
+  }));
+}
+
+function applyEdit(str: string, { offset, deleted, inserted }: TextEdit): string {
+  return str.substring(0, offset) + inserted + str.substring(offset + deleted);
+}
+
+test('reparse after single edit matches full parse', () => {
+  fc.assert(
+    fc.property(
+      arbText.chain((str) => fc.tuple(fc.constant(str), arbEdit(str))),
+      arbOptions,
+      ([str, edit], options) => {
+        expect(reparse(parseFull(str, options), edit)).toEqual(parseFull(applyEdit(str, edit), options));
+      },
+    ),
+    { numRuns: 1000 },
+  );
+});
+
+test('reparse after chain of edits matches full parse', () => {
+  fc.assert(
+    fc.property(
+      arbText,
+      fc.array(fc.tuple(fc.nat(), fc.nat(), arbText), { maxLength: 10 }),
+      arbOptions,
+      (str, rolls, options) => {
+        let state = parseFull(str, options);
+        for (const [roll1, roll2, inserted] of rolls) {
+          const offset = roll1 % (state.str.length + 1);
+          const edit = { offset, deleted: roll2 % (state.str.length - offset + 1), inserted };
+          state = reparse(state, edit);
+          expect(state).toEqual(parseFull(state.str, options));
+        }
+      },
+    ),
+  );
+});
+
+test('edit deep in a file keeps unaffected top-level blocks', () => {
+  const str = 'a\n b\nc\n d\n  e\nf\n g\n';
+  const prev = parseFull(str);
+  const next = reparse(prev, { offset: str.indexOf('e'), deleted: 1, inserted: 'x y\n\nz' });
+  expect(next).toEqual(parseFull(next.str));
+  expect(next.mappings[0]).toBe(prev.mappings[0]); // before resumed line, reused as-is
+  expect(next.mappings.map(({ linum, label }) => [linum, label])).toEqual([
+    [1, 'a'], [2, 'b'], [3, 'c'], [4, 'd'], [5, 'x'], [7, 'z'], [8, 'f'], [9, 'g'],
+  ]);
+});
+
+test('diagnostics after the edit are shifted', () => {
+  const str = 'a\n b\nc\n\t\td\n\te\n';
+  const prev = parseFull(str);
+  const next = reparse(prev, { offset: 1, deleted: 0, inserted: '\n\n' });
+  expect(next).toEqual(parseFull(next.str));
+  expect(next.diagnostics.map(({ linum, span }) => [linum, span])).toEqual([[7, { start: 13, end: 14 }]]);
+});
+
+test('first mapping after a line which stops parsing keeps its leading trivia', () => {
+  const str = '"a\n"a"\n', options = { comments: false, quotes: true };
+  const next = reparse(parseFull(str, options), { offset: 5, deleted: 1, inserted: '\n\nb' });
+  expect(next).toEqual(parseFull(next.str, options));
+  expect(next.mappings.map(({ linum, trivia }) => [linum, trivia?.leading])).toEqual([[4, [null]]]);
+});
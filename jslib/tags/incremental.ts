@@ -0,0 +1,171 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { devAssert } from '#util';
+import type { Span } from '#types';
+import { lex, type LexOptions, type Tag, type Token } from '#tags/lexWsOnly';
+import { parseCollect, type ParseResult, type TagComment, type TagDiagnostic, type TagMapping } from '#tags/parseLine';
+
+// Full lexer and recovering parser output for a string, as needed to re-parse after an edit
+export interface ParseState extends ParseResult {
+  str: string,
+  tokens: Token<Tag>[],
+  options: LexOptions,
+}
+
+// Replaces deleted code units at offset with inserted
+export interface TextEdit {
+  offset: number,
+  deleted: number,
+  inserted: string,
+}
+
+export function parseFull(str: string, options: LexOptions = {}): ParseState {
+  const tokens = Array.from(lex(str, 0, options));
+  return { str, tokens, options, ...parseCollect(str, tokens) };
+}
+
+// Index of the token starting exactly at offset, or -1
+function findToken(tokens: Token<Tag>[], offset: number): number {
+  let low = 0, high = tokens.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (tokens[mid].start < offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return (low < tokens.length && tokens[low].start === offset) ? low : -1;
+}
+
+function isWord(tag: Tag): boolean {
+  return tag === 'nonws' || tag === 'quoted';
+}
+
+// Whether the token at index starts a top-level line, where parse() resets its nesting state
+function isTopLevel(tokens: Token<Tag>[], index: number): boolean {
+  return isWord(tokens[index].tag) && (index === 0 || tokens[index - 1].tag === 'nl');
+}
+
+function shiftSpan({ start, end }: Span, delta: number): Span {
+  return { start: start + delta, end: end + delta };
+}
+
+function shiftComment(c: TagComment | null, delta: number): TagComment | null {
+  return c !== null ? { ...c, span: shiftSpan(c.span, delta) } : null;
+}
+
+// Also drops leading trivia, as the mapping is no longer the very first
+function shiftMapping({ trivia, ...m }: TagMapping, delta: number, lineDelta: number): TagMapping {
+  const shifted: TagMapping = { ...m,
+    linum: m.linum + lineDelta,
+    line: shiftSpan(m.line, delta),
+    labelSpan: shiftSpan(m.labelSpan, delta),
+    mappingSpan: m.mappingSpan !== null ? shiftSpan(m.mappingSpan, delta) : null,
+  };
+  if (trivia !== undefined && (trivia.trailing !== null || trivia.after.length)) {
+    shifted.trivia = {
+      leading: [],
+      trailing: shiftComment(trivia.trailing, delta),
+      after: trivia.after.map((c) => shiftComment(c, delta)),
+    };
+  }
+  return shifted;
+}
+
+function shiftDiagnostic(d: TagDiagnostic, delta: number, lineDelta: number): TagDiagnostic {
+  return { ...d,
+    // message embeds the line number, see TagDiagnostic
+    message: d.message.replace(` at line {${d.linum}}: `, ` at line {${d.linum + lineDelta}}: `),
+    linum: d.linum + lineDelta,
+    line: shiftSpan(d.line, delta),
+    span: shiftSpan(d.span, delta),
+  };
+}
+
+// Given the result of parseFull() (or a previous reparse()) and an edit, returns the same result as parseFull() of
+// the edited string, while re-lexing and re-parsing only the affected region
+//
+// Resumes at the nearest top-level line starting strictly before the edit, since everything before it is unchanged
+// Stops at the first top-level line starting after the edit which was also a top-level line before the edit, since
+// lexing and parsing from there is unaffected by anything before it; the rest of the old result is shifted
+export function reparse(prev: ParseState, { offset, deleted, inserted }: TextEdit): ParseState {
+  devAssert(offset >= 0 && deleted >= 0 && offset + deleted <= prev.str.length);
+  const str = prev.str.substring(0, offset) + inserted + prev.str.substring(offset + deleted);
+  const delta = inserted.length - deleted, editEnd = offset + inserted.length;
+
+  let resume = { linum: 1, offset: 0 };
+  // leading trivia is only known from the start, so an earlier mapping must be kept in case the resumed line no longer
+  // parses (e.g. loses a closing quote)
+  for (let i = prev.mappings.length - 1; i >= 1; i--) {
+    const { linum, line, nesting } = prev.mappings[i];
+    if (nesting === 0 && line.start < offset) {
+      resume = { linum, offset: line.start };
+      break;
+    }
+  }
+  const resumeIndex = resume.offset === 0 ? 0 : findToken(prev.tokens, resume.offset);
+  devAssert(resumeIndex >= 0);
+
+  const tokens = prev.tokens.slice(0, resumeIndex);
+  // index into prev.tokens and line number of the first unaffected top-level line, if found
+  let resync = null as { index: number, linum: number } | null;
+  function* relex() {
+    let linum = resume.linum;
+    for (const token of lex(str, resume.offset, prev.options)) {
+      const lineStart = tokens.length === 0 || tokens[tokens.length - 1].tag === 'nl';
+      if (token.start >= editEnd && isWord(token.tag) && lineStart) {
+        const index = findToken(prev.tokens, token.start - delta);
+        if (index >= 0 && isTopLevel(prev.tokens, index)) {
+          resync = { index, linum };
+          return;
+        }
+      }
+
+      if (token.tag === 'nl') {
+        linum += 1;
+      }
+      tokens.push(token);
+      yield token;
+    }
+  }
+
+  const result = parseCollect(str, relex(), resume);
+  const mappings = prev.mappings.filter(({ line }) => line.start < resume.offset).concat(result.mappings);
+  const diagnostics = prev.diagnostics.filter(({ line }) => line.start < resume.offset).concat(result.diagnostics);
+
+  if (resync !== null) {
+    if (mappings.length === 0) {
+      // trivia before the resynchronised line would be its leading trivia, but is lost
+      return parseFull(str, prev.options);
+    }
+
+    const { index, linum } = resync;
+    const oldStart = prev.tokens[index].start;
+    let oldLinum = resume.linum;
+    for (let i = resumeIndex; i < index; i++) {
+      if (prev.tokens[i].tag === 'nl') {
+        oldLinum += 1;
+      }
+    }
+    const lineDelta = linum - oldLinum;
+
+    for (let i = index; i < prev.tokens.length; i++) {
+      const token = prev.tokens[i];
+      tokens.push({ ...token, start: token.start + delta, end: token.end + delta });
+    }
+    for (const m of prev.mappings) {
+      if (m.line.start >= oldStart) {
+        mappings.push(shiftMapping(m, delta, lineDelta));
+      }
+    }
+    for (const d of prev.diagnostics) {
+      if (d.line.start >= oldStart) {
+        diagnostics.push(shiftDiagnostic(d, delta, lineDelta));
+      }
+    }
+  }
+
+  return { str, tokens, options: prev.options, mappings, diagnostics };
+}
@@ -1,93 +1,18 @@
 // Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
 // GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
 
-import { expect, test } from 'vitest';
+import { describe, expect, test } from 'vitest';
 import fc from 'fast-check';
-import type { Arbitrary } from 'fast-check';
-import { lex, type Tag, type Token } from '#tags/lexWsOnly';
+import { escapeWord, lex, unescapeWord, type Tag, type Token } from '#tags/lexWsOnly';
+import { wsOnlyLexer } from '#tags/lexer';
+import { lexerProperties } from '#tags/lexer.fixture';
 
 test('empty string returns empty result', () => {
   expect(Array.from(lex(''))).toEqual([]);
 });
 
-const arbLexResult: Arbitrary<[string, Token<Tag>[]]> = fc.string({ unit: 'binary' }).map((s) => [s, Array.from(lex(s))]);
-
-function checkHarness(predicate: (s:string, r:Token<Tag>[]) => any) {
-  fc.assert(
-    fc.property(arbLexResult, (d) => predicate(...d)),
-    { examples: [[ ['', []] ]]},
-  );
-}
-
-test('only empty string returns empty result', () => {
-  checkHarness((str, result) => {
-    expect(result.length === 0).toBe(str.length === 0);
-  });
-});
-
-test('first token starts at 0', () => {
-  checkHarness((_str, result) => {
-    if (result.length > 0) {
-      expect(result[0].start).toBe(0);
-    }
-  });
-});
-
-test('adjacent tokens are contiguous', () => {
-  checkHarness((_str, result) => {
-    for (let i = 0; i < result.length - 1; i++) {
-      expect(result[i].end).toBe(result[i + 1].start);
-    }
-  });
-});
-
-test('last token ends at end of input', () => {
-  checkHarness((str, result) => {
-    if (result.length > 0) {
-      expect(result[result.length - 1].end).toBe(str.length);
-    }
-  });
-});
-
-test('all tokens nonempty', () => {
-  checkHarness((_str, result) => {
-    result.forEach(({ start, end }) => {
-      expect(end).toBeGreaterThan(start);
-    });
-  });
-});
-
-test('adjacent <ws> tokens never appear', () => {
-  checkHarness((_str, result) => {
-    for (let i = 0; i < result.length - 1; i++) {
-      if ((result[i].tag === 'ws') && (result[i + 1].tag === 'ws')) {
-        throw result;
-      }
-    }
-  });
-});
-
-test('adjacent <nonws> tokens never appear', () => {
-  checkHarness((_str, result) => {
-    for (let i = 0; i < result.length - 1; i++) {
-      if ((result[i].tag === 'nonws') && (result[i + 1].tag === 'nonws')) {
-        throw result;
-      }
-    }
-  });
-});
-
-test('all <nl> tokens are length 1 except \\r\\n', () => {
-  checkHarness((str, result) => {
-    result.filter(({ tag }) => tag === 'nl')
-      .forEach(({ start, end }) => {
-        if (end === start + 2) {
-          expect(str.substring(start, end)).toBe('\r\n');
-        } else {
-          expect(end).toBe(start + 1);
-        }
-      });
-  });
+describe('properties', () => {
+  lexerProperties(wsOnlyLexer());
 });
 
 function checkHarnessForce(force: string, predicate: (s:string, i:number, r:Token<Tag>[]) => any) {
@@ -130,16 +55,6 @@ test.for([
   ['\\n', '\n']])(
     '%s classified as <nl>', ([, s]) => checkWithinToken(s, 'nl'));
 
-test('\\r and \\n are never consecutive tokens', () => {
-  checkHarnessForce('\r\n', (str, _idx, result) => {
-    for (let i = 0; i < result.length - 1; i++) {
-      if (str.substring(result[i].start, result[i].end) === '\r' && str.substring(result[i + 1].start, result[i + 1].end) === '\n') {
-        throw result;
-      }
-    }
-  });
-});
-
 test.for([
   ['\\t', '\t'],
   ['space', ' '],
@@ -193,3 +108,72 @@ test.for([
   ['\\uE000', '\\uFFFF', 0xE000, 0xFFFF],
   ['\\u{10000}', '\\u{10FFFF}', 0x10000, 0x10FFFF]] as const)(
     '%s-%s classified as <nonws>', ([,, low, high]) => checkWithinTokenRange({ low, high }, 'nonws'));
+
+test('comments run from unescaped # to end of line', () => {
+  const str = 'a\\#b #c \\# d\r\n#\n';
+  expect(Array.from(lex(str, 0, { comments: true }))).toEqual([
+    { tag: 'nonws', start: 0, end: 4, value: 'a#b' },
+    { tag: 'ws', start: 4, end: 5 },
+    { tag: 'comment', start: 5, end: 12 },
+    { tag: 'nl', start: 12, end: 14 },
+    { tag: 'comment', start: 14, end: 15 },
+    { tag: 'nl', start: 15, end: 16 },
+  ]);
+  expect(Array.from(lex(str)).map(({ tag }) => tag)).toEqual(['nonws', 'ws', 'nonws', 'ws', 'nonws', 'ws', 'nonws', 'nl', 'nonws', 'nl']);
+});
+
+test('quoted strings run to closing quote, with backslash escapes', () => {
+  const str = 'a"b \\" c"\\"d "#\\\\" "e\\\r\n';
+  expect(Array.from(lex(str, 0, { quotes: true, comments: true }))).toEqual([
+    { tag: 'nonws', start: 0, end: 1 },
+    { tag: 'quoted', start: 1, end: 9, value: 'b " c' },
+    { tag: 'nonws', start: 9, end: 12, value: '"d' },
+    { tag: 'ws', start: 12, end: 13 },
+    { tag: 'quoted', start: 13, end: 18, value: '#\\' },
+    { tag: 'ws', start: 18, end: 19 },
+    { tag: 'quoted', start: 19, end: 22 }, // unterminated
+    { tag: 'nl', start: 22, end: 24 },
+  ]);
+});
+
+test('with comments and quotes, tokens still cover input and lexing from any token boundary matches', () => {
+  fc.assert(
+    fc.property(
+      fc.string({ unit: fc.constantFrom('a', ' ', '\n', '\r', '#', '\\', '"') }),
+      fc.record({ comments: fc.boolean(), quotes: fc.boolean() }),
+      (str, options) => {
+        const result = Array.from(lex(str, 0, options));
+        expect(result.map(({ start, end }) => str.substring(start, end)).join('')).toBe(str);
+        const special = (options.comments ? '#' : '') + (options.quotes ? '"' : '');
+        result.forEach(({ tag, start, end, value }, i) => {
+          const raw = str.substring(start, end);
+          expect(end).toBeGreaterThan(start);
+          if (tag === 'comment') {
+            expect(options.comments && raw[0] === '#').toBe(true);
+          } else if (tag === 'quoted') {
+            expect(options.quotes && raw[0] === '"').toBe(true);
+            if (value !== undefined) {
+              expect(raw.length >= 2 && raw.endsWith('"')).toBe(true);
+              expect(value).toBe(raw.slice(1, -1).replace(/\\([^])/g, '$1'));
+            } else {
+              expect(i === result.length - 1 || result[i + 1].tag === 'nl').toBe(true);
+            }
+          } else if (tag === 'nonws') {
+            expect(value ?? raw).toBe(special ? raw.replace(new RegExp(`\\\\([${special}])`, 'g'), '$1') : raw);
+          }
+          expect(Array.from(lex(str, start, options))).toEqual(result.slice(i));
+        });
+      },
+    ),
+  );
+});
+
+test('escaped word lexes as one <nonws> with the original value', () => {
+  fc.assert(
+    fc.property(fc.string({ unit: fc.constantFrom('a', '#', '"', '\\'), minLength: 1 }), fc.boolean(), fc.boolean(), (text, comments, quotes) => {
+      const raw = escapeWord(text, { comments, quotes });
+      expect(Array.from(lex(raw, 0, { comments, quotes })).map(({ tag }) => tag)).toEqual(['nonws']);
+      expect(unescapeWord(raw, { comments, quotes })).toBe(text);
+    }),
+  );
+});
@@ -2,19 +2,63 @@
 // GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
 
 import { devAssert } from '#util';
-import type { LexStream } from '#types';
+import type { LexStream, Token } from '#types';
 
 export type { LexStream, Token } from '#types';
-export type Tag = 'nl' | 'ws' | 'nonws';
+export type Tag = 'nl' | 'ws' | 'nonws' | 'comment' | 'quoted';
 
-export function* lex(str: string): LexStream<Tag> {
+export interface LexOptions {
+  comments?: boolean, // '#' to end of line is a <comment>, and '\#' is a literal '#' in <nonws>; default off
+  quotes?: boolean, // '"' to the next unescaped '"' on the line is a <quoted>, and '\"' is a literal '"' in <nonws>; default off
+  ascii?: boolean, // only ASCII whitespace and newlines, so e.g. U+00A0 and U+3000 are <nonws>; default off
+}
+
+// Newline and whitespace (including newline) character classes
+function classes(options: LexOptions): { NL: string, WS: string } {
+  return options.ascii
+    ? { NL: String.raw`\n\f\r`, WS: String.raw`\t\n\v\f\r ` }
+    : { NL: String.raw`\n\f\r\x85\u2028\u2029`, WS: String.raw`\p{White_Space}` };
+}
+
+// Characters escaped by '\' in <nonws>
+function specials(options: LexOptions): string {
+  return (options.comments ? '#' : '') + (options.quotes ? '"' : '');
+}
+
+// Lexer value of the raw text of a <nonws>, or any substring of it not splitting an escape
+export function unescapeWord(raw: string, options: LexOptions = {}): string {
+  const special = specials(options);
+  return special ? raw.replace(new RegExp(String.raw`\\([${special}])`, 'gv'), '$1') : raw;
+}
+
+// Raw text of a <nonws> with the given lexer value, inverse of unescapeWord()
+export function escapeWord(text: string, options: LexOptions = {}): string {
+  const special = specials(options);
+  return special ? text.replace(new RegExp(`[${special}]`, 'gv'), '\\$&') : text;
+}
+
+// Lexes from start (default whole string), which must be a token boundary for the same result as a full lex
+export function* lex(str: string, start: number = 0, options: LexOptions = {}): LexStream<Tag> {
   // Single newline, maximal other whitespace, or maximal other chars; irrefutable
   // Newline per unicode standard 5.8; whitespace per unicode White_Space
   // \v is, per main standard, considered whitespace but not newline
   // \x85 is considered newline; doesn't match JS regex
-  const re_lexer = /(?<nl>\r\n|[\n\f\r\x85\u2028\u2029])|(?<ws>[\p{White_Space}--[\n\f\r\x85\u2028\u2029]]+)|(?<nonws>\P{White_Space}+)/vy;
+  // With comments, unescaped '#' and the rest of the line (before newline) is a comment instead
+  // With quotes, unescaped '"' starts a quoted string, where '\' escapes any next char, up to the closing '"'
+  // - without a closing '"', runs to end of line (before newline)
+  // - may be adjacent to <nonws> or another <quoted>, e.g. 'a"b c"' is <nonws><quoted>
+  // With ascii, newline is only '\n', '\f', '\r' and whitespace only those and '\t', '\v', ' '
+  const special = specials(options), { NL, WS } = classes(options);
+  const re_lexer = new RegExp([
+    String.raw`(?<nl>\r\n|[${NL}])`,
+    String.raw`(?<ws>[[${WS}]--[${NL}]]+)`,
+    ...(options.comments ? [String.raw`(?<comment>#[^${NL}]*)`] : []),
+    ...(options.quotes ? [String.raw`(?<quoted>"(?:[^"\\${NL}]|\\[^${NL}]?)*(?<close>")?)`] : []),
+    special ? String.raw`(?<nonws>(?:\\[${special}]|[[^${WS}]--[${special}]])+)` : String.raw`(?<nonws>[^${WS}]+)`,
+  ].join('|'), 'vy');
 
-  let last = 0, match: any;
+  re_lexer.lastIndex = start;
+  let last = start, match: any;
   while ((match = re_lexer.exec(str)) !== null) {
     function tag() {
       const g = match.groups!;
@@ -22,6 +66,10 @@ export function* lex(str: string): LexStream<Tag> {
         return 'nl';
       } else if (g.ws !== void 0) {
         return 'ws';
+      } else if (g.comment !== void 0) {
+        return 'comment';
+      } else if (g.quoted !== void 0) {
+        return 'quoted';
       } else if (import.meta.env.PROD || g.nonws !== void 0) {
         // regex is irrefutable, see tests for proof
         return 'nonws';
@@ -29,11 +77,21 @@ export function* lex(str: string): LexStream<Tag> {
       devAssert(false); /* v8 ignore stop */
     }
 
-    yield {
+    const token: Token<Tag> = {
       tag: tag(),
       start: last,
       end: re_lexer.lastIndex,
     };
+    if (token.tag === 'quoted' && match.groups!.close !== void 0) {
+      // value only if terminated
+      token.value = match[0].slice(1, -1).replace(/\\(.)/gv, '$1');
+    } else if (special && token.tag === 'nonws' && match[0].includes('\\')) {
+      const value = unescapeWord(match[0], options);
+      if (value !== match[0]) {
+        token.value = value;
+      }
+    }
+    yield token;
 
     last = re_lexer.lastIndex;
   }
@@ -0,0 +1,96 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import type { Arbitrary } from 'fast-check';
+import type { Tag, Token } from '#tags/lexWsOnly';
+import type { Lexer } from '#tags/lexer';
+
+// Properties every Lexer must have, as tests over arbitrary text (default any string) it accepts
+export function lexerProperties(lexer: Lexer, arbText: Arbitrary<string> = fc.string({ unit: 'binary' })) {
+  const arbLexResult: Arbitrary<[string, Token<Tag>[]]> = arbText.map((s) => [s, Array.from(lexer.lex(s))]);
+
+  function checkHarness(predicate: (s:string, r:Token<Tag>[]) => any) {
+    fc.assert(
+      fc.property(arbLexResult, (d) => predicate(...d)),
+      { examples: [[ ['', []] ], [ ['\r\n', Array.from(lexer.lex('\r\n'))] ]]},
+    );
+  }
+
+  test('only empty string returns empty result', () => {
+    checkHarness((str, result) => {
+      expect(result.length === 0).toBe(str.length === 0);
+    });
+  });
+
+  test('first token starts at 0', () => {
+    checkHarness((_str, result) => {
+      if (result.length > 0) {
+        expect(result[0].start).toBe(0);
+      }
+    });
+  });
+
+  test('adjacent tokens are contiguous', () => {
+    checkHarness((_str, result) => {
+      for (let i = 0; i < result.length - 1; i++) {
+        expect(result[i].end).toBe(result[i + 1].start);
+      }
+    });
+  });
+
+  test('last token ends at end of input', () => {
+    checkHarness((str, result) => {
+      if (result.length > 0) {
+        expect(result[result.length - 1].end).toBe(str.length);
+      }
+    });
+  });
+
+  test('all tokens nonempty', () => {
+    checkHarness((_str, result) => {
+      result.forEach(({ start, end }) => {
+        expect(end).toBeGreaterThan(start);
+      });
+    });
+  });
+
+  test.for(['ws', 'nonws'] as const)('adjacent <%s> tokens never appear', (tag) => {
+    checkHarness((_str, result) => {
+      for (let i = 0; i < result.length - 1; i++) {
+        expect(result[i].tag === tag && result[i + 1].tag === tag).toBe(false);
+      }
+    });
+  });
+
+  test('lexing from any token boundary matches rest of full lex', () => {
+    checkHarness((str, result) => {
+      result.forEach(({ start }, i) => {
+        expect(Array.from(lexer.lex(str, start))).toEqual(result.slice(i));
+      });
+    });
+  });
+
+  test('all <nl> tokens are length 1 except \\r\\n', () => {
+    checkHarness((str, result) => {
+      result.filter(({ tag }) => tag === 'nl')
+        .forEach(({ start, end }) => {
+          if (end === start + 2) {
+            expect(str.substring(start, end)).toBe('\r\n');
+          } else {
+            expect(end).toBe(start + 1);
+          }
+        });
+    });
+  });
+
+  test('\\r\\n is never split between tokens', () => {
+    fc.assert(
+      fc.property(arbText, arbText, (s1, s2) => {
+        const str = s1 + '\r\n' + s2, idx = s1.length;
+        expect(Array.from(lexer.lex(str)).some(({ start, end }) => start <= idx && end >= idx + 2)).toBe(true);
+      }),
+    );
+  });
+}
@@ -0,0 +1,69 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { describe, expect, test } from 'vitest';
+import fc from 'fast-check';
+import { TagError } from '#tags/parseLine';
+import { getLexer, lexerNames, parseWith, parseWithCollect, registerLexer, strictLexer, wsOnlyLexer } from '#tags/lexer';
+import { lexerProperties } from '#tags/lexer.fixture';
+
+describe.for(['wsOnly', 'comments', 'ascii'])('%s lexer properties', (name) => {
+  lexerProperties(getLexer(name));
+});
+
+describe('strict lexer properties', () => {
+  lexerProperties(getLexer('strict'), fc.string({ unit: 'binary' }).map((s) => s.replace(/[\v\f]/gv, ' ')));
+});
+
+describe('ascii lexer with comments and quotes properties', () => {
+  lexerProperties(wsOnlyLexer({ ascii: true, comments: true, quotes: true }));
+});
+
+test('ascii lexer takes only ASCII whitespace and newlines', () => {
+  const str = 'a\xA0b\u3000c\x85d\u2028e \t\vf\fg\r\n';
+  expect(Array.from(getLexer('ascii').lex(str), ({ tag, start, end }) => [tag, str.substring(start, end)])).toEqual([
+    ['nonws', 'a\xA0b\u3000c\x85d\u2028e'],
+    ['ws', ' \t\v'],
+    ['nonws', 'f'],
+    ['nl', '\f'],
+    ['nonws', 'g'],
+    ['nl', '\r\n'],
+  ]);
+  expect(Array.from(parseWith('Bio\xA0logy Biology\n', 'ascii'), ({ label, mapping }) => [label, mapping])).toEqual([['Bio\xA0logy', 'Biology']]);
+});
+
+test('strict lexer rejects \\v and \\f as whitespace', () => {
+  const lexer = getLexer('strict');
+  expect(Array.from(lexer.lex('a b\n # c\n', 0), ({ tag }) => tag)).toEqual(['nonws', 'ws', 'nonws', 'nl', 'ws', 'nonws', 'ws', 'nonws', 'nl']);
+  expect(() => Array.from(lexer.lex('a\n  b \v c\n'))).toThrowError(expect.objectContaining({
+    code: 'InvalidWhitespace',
+    message: 'Whitespace character U+000B not allowed at line {2}: {  b \v}',
+    linum: 2,
+    line: { start: 2, end: 10 },
+    span: { start: 6, end: 7 },
+    column: { start: 4, end: 5 },
+  }));
+  expect(() => Array.from(parseWith('a\fb\n', 'strict'))).toThrowError(expect.objectContaining({
+    code: 'InvalidWhitespace', linum: 1, line: { start: 0, end: 2 }, span: { start: 1, end: 2 },
+  }));
+  expect(() => Array.from(lexer.lex('a\nb\v'))).toThrowError(expect.objectContaining({ linum: 2, line: { start: 2, end: 4 } }));
+
+  // comments are kept, as they are not whitespace
+  const comments = strictLexer(wsOnlyLexer({ comments: true }));
+  expect(Array.from(comments.lex('a # \v\n'), ({ tag }) => tag)).toEqual(['nonws', 'ws', 'comment', 'nl']);
+  expect(() => parseWithCollect(' a\n\v', comments)).toThrowError(TagError);
+});
+
+test('registry finds lexers by name, never replacing one', () => {
+  expect(lexerNames()).toEqual(['wsOnly', 'comments', 'ascii', 'strict']);
+  expect(() => getLexer('none')).toThrowError("Unknown lexer 'none'");
+  expect(() => registerLexer('ascii', wsOnlyLexer())).toThrowError("Lexer 'ascii' already registered");
+
+  const quotes = wsOnlyLexer({ quotes: true });
+  registerLexer('quotes', quotes);
+  expect(getLexer('quotes')).toBe(quotes);
+  expect(parseWithCollect('"a b" c\n"d', 'quotes')).toMatchObject({
+    mappings: [{ label: 'a b', mapping: 'c' }],
+    diagnostics: [{ code: 'UnterminatedQuote' }],
+  });
+});
@@ -0,0 +1,107 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { lex, type LexOptions, type LexStream, type Tag } from '#tags/lexWsOnly';
+import { parse, parseCollect, TagError, type MappingStream, type ParseResult } from '#tags/parseLine';
+import { columnSpans } from '#tags/position';
+
+// Lexer for parse(), as lex() with its options fixed
+// Tokens are nonempty and contiguous from start, which must be a token boundary for the same result as a full lex
+// Each line ends at a <nl>, and lexing from the start of any line gives the same tokens as the full lex
+export interface Lexer {
+  lex(str: string, start?: number): LexStream<Tag>,
+}
+
+export function wsOnlyLexer(options: LexOptions = {}): Lexer {
+  return { lex: (str, start = 0) => lex(str, start, options) };
+}
+
+// Throws TagError at the first '\v' or '\f', which the base lexer otherwise takes as whitespace or newline
+// Only <ws> and <nl> are checked, so e.g. a '\v' in a comment is kept
+export function strictLexer(base: Lexer): Lexer {
+  return {
+    *lex(str, start = 0) {
+      for (const token of base.lex(str, start)) {
+        const invalid = token.tag === 'ws' || token.tag === 'nl' ? /[\v\f]/v.exec(str.substring(token.start, token.end)) : null;
+        if (invalid !== null) {
+          throw invalidWhitespace(base, str, token.start + invalid.index);
+        }
+        yield token;
+      }
+    },
+  };
+}
+
+// Line of the offending character, by the base lexer's own line breaks
+function invalidWhitespace(base: Lexer, str: string, offset: number): TagError {
+  let linum = 1, lineStart = 0, lineEnd = str.length;
+  for (const { tag, end } of base.lex(str)) {
+    if (tag === 'nl') {
+      if (end > offset) {
+        lineEnd = end;
+        break;
+      }
+      linum++;
+      lineStart = end;
+    }
+  }
+  const code = str.codePointAt(offset)!.toString(16).toUpperCase().padStart(4, '0');
+  const column = { start: offset - lineStart, end: offset + 1 - lineStart };
+  return new TagError({
+    code: 'InvalidWhitespace',
+    message: `Whitespace character U+${code} not allowed at line {${linum}}: {${str.substring(lineStart, offset + 1)}}`,
+    linum,
+    line: { start: lineStart, end: lineEnd },
+    span: { start: offset, end: offset + 1 },
+    column,
+    columns: columnSpans(str.substring(lineStart, lineEnd), column),
+    indent: null,
+  });
+}
+
+const registry = new Map<string, Lexer>([
+  ['wsOnly', wsOnlyLexer()],
+  ['comments', wsOnlyLexer({ comments: true })],
+  ['ascii', wsOnlyLexer({ ascii: true })],
+  ['strict', strictLexer(wsOnlyLexer())],
+]);
+
+// Adds a lexer under a new name; names are never replaced, so a lexer found once stays the same
+export function registerLexer(name: string, lexer: Lexer): void {
+  if (registry.has(name)) {
+    throw new Error(`Lexer '${name}' already registered`);
+  }
+  registry.set(name, lexer);
+}
+
+// Built-in lexers:
+// - wsOnly: lex() without options
+// - comments: lex() with comments
+// - ascii: lex() with only ASCII whitespace
+// - strict: wsOnly, rejecting '\v' and '\f', see strictLexer()
+export function getLexer(name: string): Lexer {
+  const lexer = registry.get(name);
+  if (lexer === undefined) {
+    throw new Error(`Unknown lexer '${name}'`);
+  }
+  return lexer;
+}
+
+export function lexerNames(): string[] {
+  return Array.from(registry.keys());
+}
+
+function lexerOf(lexer: Lexer | string): Lexer {
+  return typeof lexer === 'string' ? getLexer(lexer) : lexer;
+}
+
+// Pairs parse() with a lexer, by name or given
+export function parseWith(str: string, lexer: Lexer | string): MappingStream {
+  return parse(str, lexerOf(lexer).lex(str));
+}
+
+// Pairs parseCollect() with a lexer, by name or given
+// A lexer's own errors, e.g. from strictLexer(), are thrown rather than collected
+export function parseWithCollect(str: string, lexer: Lexer | string): ParseResult {
+  return parseCollect(str, lexerOf(lexer).lex(str));
+}
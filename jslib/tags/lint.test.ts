@@ -0,0 +1,130 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { memoryResolver, parseIncludes } from '#tags/include';
+import { parse } from '#tags/parseLine';
+import { arbInput } from '#tags/parseLine.arbitrary';
+import { lex } from '#tags/lexWsOnly';
+import { lint, lintIncludes, type LintOptions } from '#tags/lint';
+import { withTargets } from '#tags/targets';
+
+function lintStr(str: string, options: LintOptions = {}) {
+  return lint(str, parse(str, lex(str, 0, { comments: true })), options);
+}
+
+function rules(str: string, options: LintOptions = {}) {
+  return lintStr(str, options).map(({ rule, linum }) => [rule, linum]);
+}
+
+test('duplicate labels under the same parent', () => {
+  const str = 'Biology\n  Cell\n  cell Cytology\nChemistry\n  Cell\nBiology\n';
+  expect(lintStr(str)).toEqual([
+    { rule: 'DuplicateLabel', severity: 'error', message: 'Duplicate of label at line 2 at line {3}: {cell}',
+      linum: 3, line: { start: 15, end: 31 }, span: { start: 17, end: 21 },
+      columns: { utf16: { start: 2, end: 6 }, codePoint: { start: 2, end: 6 }, grapheme: { start: 2, end: 6 } } },
+    { rule: 'DuplicateLabel', severity: 'error', message: 'Duplicate of label at line 1 at line {6}: {Biology}',
+      linum: 6, line: { start: 48, end: 56 }, span: { start: 48, end: 55 },
+      columns: { utf16: { start: 0, end: 7 }, codePoint: { start: 0, end: 7 }, grapheme: { start: 0, end: 7 } } },
+  ]);
+});
+
+test('include directives define no labels or targets', () => {
+  expect(rules('@include a.txt\n@include a.txt \nx\n  @include a.txt\n  "@include" a.txt\n', { config: { DuplicateTarget: 'error' } })).toEqual([
+    ['TrailingWhitespace', 2],
+  ]);
+  expect(rules('"@include" a.txt\n"@include" b.txt\n')).toEqual([['DuplicateLabel', 2]]);
+});
+
+test('files are linted with the files they include', async () => {
+  const files = new Map(Object.entries({
+    'main.txt': 'Biology\n  Cell x # lint-disable-line DuplicateLabel\n  @include parts.txt\n@include parts.txt\ny w\n',
+    'parts.txt': 'cell z \nw y\nv y\n',
+  }));
+  const parsed = await parseIncludes('main.txt', memoryResolver(files), { comments: true });
+  expect(lintIncludes(parsed).map(({ rule, message, chain }) => [rule, message, chain.map(({ file, linum }) => `${file}:${linum}`).join(' ')])).toEqual([
+    ['TrailingWhitespace', 'Trailing whitespace at line {1}: {cell}', 'main.txt:3 parts.txt:1'],
+    ['DuplicateLabel', 'Duplicate of label at line 2 of main.txt at line {1}: {cell}', 'main.txt:3 parts.txt:1'],
+    ['DuplicateTarget', 'Also mapped to \'z\' at line 1 at line {1}: {cell}', 'main.txt:4 parts.txt:1'],
+    ['DuplicateTarget', 'Also mapped to \'y\' at line 2 at line {2}: {w}', 'main.txt:4 parts.txt:2'],
+    ['MappingCycle', 'Mapping cycle between w, y at line {2}: {w}', 'main.txt:4 parts.txt:2'],
+    ['DuplicateTarget', 'Also mapped to \'y\' at line 2 at line {3}: {v}', 'main.txt:3 parts.txt:3'],
+  ]);
+
+  // each file alone
+  expect(lint(files.get('main.txt')!, parsed.files.get('main.txt')!.result.mappings)).toEqual([]);
+});
+
+test('labels mapping to the same target', () => {
+  const str = 'Plants Botany\nBiology\n  Botany botany\n';
+  expect(lintStr(str)).toEqual([
+    { rule: 'DuplicateTarget', severity: 'info', message: 'Also mapped to \'botany\' at line 1 at line {3}: {Botany}',
+      linum: 3, line: { start: 22, end: 38 }, span: { start: 31, end: 37 },
+      columns: { utf16: { start: 9, end: 15 }, codePoint: { start: 9, end: 15 }, grapheme: { start: 9, end: 15 } } },
+  ]);
+  // the same target twice on one line is not a duplicate
+  const targeted = 'a x x\nb y\n';
+  expect(lint(targeted, withTargets(targeted, parse(targeted, lex(targeted))))).toEqual([]);
+});
+
+test('indentation mixing tabs and spaces across blocks', () => {
+  const str = 'a\n  b\nc\n\td\n\t  e\n';
+  expect(lintStr(str).map(({ rule, linum, span }) => [rule, linum, str.substring(span.start, span.end)])).toEqual([
+    ['MixedIndentation', 4, '\t'],
+    ['MixedIndentation', 5, '\t  '],
+  ]);
+});
+
+test('trailing whitespace on mapping lines', () => {
+  const str = 'a b \r\n  c\t# note \nd';
+  expect(lintStr(str).map(({ rule, linum, span }) => [rule, linum, str.substring(span.start, span.end)])).toEqual([
+    ['TrailingWhitespace', 1, ' '],
+    ['TrailingWhitespace', 2, ' '],
+  ]);
+});
+
+test('columns count code points and grapheme clusters', () => {
+  expect(lintStr('a \u{1F600}e\u0301 \n')).toMatchObject([{
+    rule: 'TrailingWhitespace',
+    columns: { utf16: { start: 6, end: 7 }, codePoint: { start: 5, end: 6 }, grapheme: { start: 4, end: 5 } },
+  }]);
+});
+
+test('mapping cycles are reported once', () => {
+  const str = 'a b\nb::x\nb c\nc a\nd d\nD d\ne e::f\n';
+  expect(lintStr(str)).toEqual([
+    expect.objectContaining({ rule: 'MappingCycle', linum: 1, message: 'Mapping cycle between a, b, c at line {1}: {a}' }),
+    expect.objectContaining({ rule: 'DuplicateLabel', linum: 6 }),
+    expect.objectContaining({ rule: 'DuplicateTarget', linum: 6 }),
+  ]);
+});
+
+test('config sets severity or turns rules off', () => {
+  const str = 'a b\nc b \n';
+  expect(lintStr(str, { config: { DuplicateTarget: 'error', TrailingWhitespace: 'off' } }).map(({ rule, severity }) => [rule, severity]))
+    .toEqual([['DuplicateTarget', 'error']]);
+});
+
+test('comments suppress results by line or file', () => {
+  expect(rules('a x\nb x # lint-disable-line\nc x # lint-disable-line DuplicateLabel\n')).toEqual([['DuplicateTarget', 3]]);
+  expect(rules('a x\n# lint-disable-next-line DuplicateTarget, MappingCycle\nb x\nc x\n')).toEqual([['DuplicateTarget', 4]]);
+  expect(rules('a x\n# lint-disable-next-line\n\nb x\n')).toEqual([['DuplicateTarget', 4]]);
+  expect(rules('# lint-disable-next-line\na x\nb x\n# lint-disable DuplicateTarget\nc x\n')).toEqual([]);
+  expect(rules('# lint-disablement\na x\nb x \n# lint-disable\nc x\n')).toEqual([]);
+  expect(rules('a x\n# lint-disabled\nb x\n')).toEqual([['DuplicateTarget', 3]]);
+});
+
+test('results are in line order, within their lines', () => {
+  fc.assert(
+    fc.property(arbInput, ([_tree, raw, tokens]) => {
+      const results = lint(raw, parse(raw, tokens));
+      expect(results.map(({ linum }) => linum)).toEqual(results.map(({ linum }) => linum).sort((a, b) => a - b));
+      for (const { line, span } of results) {
+        expect(line.start).toBeLessThanOrEqual(span.start);
+        expect(span.start).toBeLessThanOrEqual(span.end);
+        expect(span.end).toBeLessThanOrEqual(line.end);
+      }
+    }),
+  );
+});
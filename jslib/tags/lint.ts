@@ -0,0 +1,239 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import type { Span } from '#types';
+import { components } from '#tags/graph';
+import { isInclude, type IncludedMapping, type IncludeResult, type IncludeSite } from '#tags/include';
+import type { TagMapping, TriviaLine } from '#tags/parseLine';
+import { columnSpans, type Columns } from '#tags/position';
+import type { TargetedMapping } from '#tags/targets';
+
+export type LintRule =
+  | 'DuplicateLabel' // label repeated under the same parent, so the later one never applies
+  | 'DuplicateTarget' // two labels mapping to the same tag, merging them
+  | 'MixedIndentation' // leading whitespace uses a different character than the first indented line
+  | 'TrailingWhitespace' // whitespace at end of a mapping line
+  | 'MappingCycle'; // tags mapping back to themselves through other mappings, so applying again changes them
+
+export type LintSeverity = 'error' | 'warning' | 'info' | 'off';
+
+// Severity of each rule, overriding its default
+export type LintConfig = Partial<Record<LintRule, LintSeverity>>;
+
+export const LINT_DEFAULTS: Readonly<Record<LintRule, LintSeverity>> = {
+  DuplicateLabel: 'error',
+  DuplicateTarget: 'info',
+  MixedIndentation: 'warning',
+  TrailingWhitespace: 'warning',
+  MappingCycle: 'error',
+};
+
+export interface LintResult {
+  rule: LintRule,
+  severity: Exclude<LintSeverity, 'off'>,
+  message: string, // '<description> at line {<linum>}: {<label>}'
+  linum: number,
+  line: Span, // substring index for the offending line in raw string
+  span: Span, // substring index for the offending part of the line
+  columns: Columns<Span>, // span relative to start of line, in UTF-16, code points and grapheme clusters
+}
+
+export interface IncludeLintResult extends LintResult {
+  chain: IncludeSite[], // include directives leading to the file, outermost first, then the result itself
+}
+
+export interface LintOptions {
+  config?: LintConfig,
+  separator?: string, // hierarchical tag separator; default '::'
+}
+
+// Suppression comment, with the rules it names (all if none)
+// - '# lint-disable <rules>' on its own line: whole file
+// - '# lint-disable-line <rules>' at end of a mapping line: that line
+// - '# lint-disable-next-line <rules>' on its own line: the mapping line right after it
+interface Directive {
+  kind: 'disable' | 'disable-line' | 'disable-next-line',
+  rules: Set<string> | null,
+}
+
+function directive(comment: TriviaLine): Directive | null {
+  const match = comment !== null ? /^#\s*lint-(?<kind>disable(?:-line|-next-line)?)(?:\s(?<rules>.*))?$/v.exec(comment.text) : null;
+  if (match === null) {
+    return null;
+  }
+  const rules = (match.groups!.rules ?? '').split(/[\s,]+/v).filter((rule) => rule.length);
+  return { kind: match.groups!.kind as Directive['kind'], rules: rules.length ? new Set(rules) : null };
+}
+
+// Anki compares tags case-insensitively
+function tagKey(tag: string): string {
+  return tag.toLowerCase();
+}
+
+type Report = (rule: LintRule, msg: string, mapping: TagMapping, span: Span) => void;
+
+// Whether a rule is suppressed at a line
+type Suppressed = (rule: LintRule, linum: number) => boolean;
+
+function lintResult(config: LintConfig, str: string, rule: LintRule, msg: string, mapping: TagMapping, span: Span): LintResult | null {
+  const { linum, line, label } = mapping, severity = config[rule] ?? LINT_DEFAULTS[rule];
+  if (severity === 'off') {
+    return null;
+  }
+  const columns = columnSpans(str.substring(line.start, line.end), { start: span.start - line.start, end: span.end - line.start });
+  return { rule, severity, message: `${msg} at line {${linum}}: {${label}}`, linum, line, span, columns };
+}
+
+// Checks each line of a file on its own, and collects its suppression comments
+function lintLines(str: string, mappings: TagMapping[], report: Report): Suppressed {
+  const fileDisabled: Directive[] = new Array();
+  // suppressions by line
+  const lineDisabled = new Map<number, Directive[]>();
+  let indentChar: string | null = null, previous: TagMapping | null = null;
+
+  for (const mapping of mappings) {
+    const { linum, line, labelSpan, trivia } = mapping;
+
+    for (const d of [...(trivia?.leading ?? []), ...(trivia?.after ?? [])].map(directive)) {
+      if (d?.kind === 'disable') {
+        fileDisabled.push(d);
+      }
+    }
+    const next = directive((previous?.trivia?.after ?? trivia?.leading ?? []).at(-1) ?? null), own = directive(trivia?.trailing ?? null);
+    lineDisabled.set(linum, [
+      ...(next?.kind === 'disable-next-line' ? [next] : []),
+      ...(own?.kind === 'disable-line' ? [own] : []),
+    ]);
+    previous = mapping;
+
+    const indent = str.substring(line.start, labelSpan.start);
+    if (indent.length) {
+      indentChar ??= indent[0];
+      const mixed = Array.from(indent).findIndex((c) => c !== indentChar);
+      if (mixed >= 0) {
+        report('MixedIndentation', `Indentation mixes ${JSON.stringify(indent[mixed])} with ${JSON.stringify(indentChar)}`, mapping, { start: line.start, end: labelSpan.start });
+      }
+    }
+
+    const content = str.substring(line.start, line.end).replace(/(?:\r\n|[\n\f\r\x85\u2028\u2029])$/v, '');
+    const trailing = /\p{White_Space}+$/v.exec(content);
+    if (trailing !== null) {
+      report('TrailingWhitespace', 'Trailing whitespace', mapping, { start: line.start + trailing.index, end: line.start + content.length });
+    }
+  }
+
+  return (rule, linum) => {
+    const applies = (d: Directive) => d.rules === null || d.rules.has(rule);
+    return fileDisabled.some(applies) || lineDisabled.get(linum)!.some(applies);
+  };
+}
+
+// Checks the hierarchy of tags defined by mappings in order, skipping include directives
+// where() names the line of an earlier mapping in messages
+function lintTags<M extends TagMapping | TargetedMapping>(
+  mappings: M[], separator: string, skip: (mapping: M) => boolean, where: (first: M, mapping: M) => string, report: Report,
+) {
+  // fully qualified tags of ancestors, indexed by nesting level
+  const stack: string[] = new Array();
+  // first line of each tag, and of each target
+  const labels = new Map<string, M>(), targets = new Map<string, M>();
+  // mapping edges by tag, each with its source line and its position in mappings
+  const edges = new Map<string, { tag: string, targets: string[], mapping: M, index: number }>();
+
+  mappings.forEach((mapping, index) => {
+    const { nesting, label, labelSpan } = mapping;
+    stack.length = Math.min(nesting, stack.length);
+    // an include directive stands for the lines of its file (see parseIncludes()), so defines no tag
+    if (skip(mapping)) {
+      return;
+    }
+    const tag = stack.length ? stack[stack.length - 1] + separator + label : label;
+    stack.push(tag);
+
+    const first = labels.get(tagKey(tag));
+    if (first !== undefined) {
+      report('DuplicateLabel', `Duplicate of label at ${where(first, mapping)}`, mapping, labelSpan);
+    } else {
+      labels.set(tagKey(tag), mapping);
+    }
+
+    const mapped = 'targets' in mapping
+      ? mapping.targets.map(({ target, span }) => ({ target, span }))
+      : mapping.mapping !== null ? [{ target: mapping.mapping, span: mapping.mappingSpan! }] : [];
+    for (const { target, span } of mapped) {
+      const other = targets.get(tagKey(target));
+      if (other !== undefined && other !== mapping) {
+        report('DuplicateTarget', `Also mapped to '${target}' at ${where(other, mapping)}`, mapping, span);
+      } else {
+        targets.set(tagKey(target), mapping);
+      }
+    }
+    if (first === undefined && mapped.length) {
+      edges.set(tagKey(tag), { tag, targets: mapped.map(({ target }) => tagKey(target)), mapping, index });
+    }
+  });
+
+  // Each cycle is reported once, at its earliest line
+  for (const component of components(new Map(Array.from(edges, ([key, { targets }]) => [key, targets])))) {
+    if (component.length > 1) {
+      const lines = component.map((key) => edges.get(key)!).sort((a, b) => a.index - b.index);
+      const { mapping } = lines[0];
+      report('MappingCycle', `Mapping cycle between ${lines.map(({ tag }) => tag).join(', ')}`, mapping, mapping.mappingSpan!);
+    }
+  }
+}
+
+// Checks a stream of TagMappings parsed from str for likely mistakes that still parse (see LintRule)
+// Mappings with targets (see withTargets()) are checked per target, else by the whole mapping
+//
+// Tags are compared case-insensitively, as Anki does; hierarchy is as in resolve(), but never throws
+// Results are in line order, suppressed by comments in the file (see Directive) or by config 'off'
+// Include directives are skipped, so tags in included files are not seen, see lintIncludes()
+export function lint(str: string, mappings: Iterable<TagMapping | TargetedMapping>, options: LintOptions = {}): LintResult[] {
+  const { config = {}, separator = '::' } = options;
+  const lines = Array.from(mappings), results: LintResult[] = new Array();
+  const report: Report = (...args) => {
+    const result = lintResult(config, str, ...args);
+    if (result !== null) {
+      results.push(result);
+    }
+  };
+
+  const suppressed = lintLines(str, lines, report);
+  lintTags(lines, separator, (mapping) => isInclude(str, mapping), (first) => `line ${first.linum}`, report);
+  return results.filter(({ rule, linum }) => !suppressed(rule, linum)).sort((a, b) => a.linum - b.linum);
+}
+
+// Checks a mapping file with the files it includes, as lint() does each, with the hierarchy of tags across them all
+// Each result is in the file at the end of its chain; a line included more than once is reported once
+// Results are by file, in the order first read, then in line order, each suppressed by comments in its own file
+export function lintIncludes({ mappings, files }: IncludeResult, options: LintOptions = {}): IncludeLintResult[] {
+  const { config = {}, separator = '::' } = options;
+  const results = new Map<string, IncludeLintResult>(), suppressed = new Map<string, Suppressed>();
+  function add(file: string, chain: IncludeSite[], result: LintResult | null) {
+    const key = JSON.stringify([file, result?.rule, result?.span, result?.message]);
+    if (result !== null && !results.has(key)) {
+      results.set(key, { ...result, chain: [...chain, { file, linum: result.linum }] });
+    }
+  }
+
+  for (const [file, { text, result, chain }] of files) {
+    suppressed.set(file, lintLines(text, result.mappings, (...args) => add(file, chain, lintResult(config, text, ...args))));
+  }
+  lintTags(
+    mappings,
+    separator,
+    () => false,
+    (first, mapping) => first.file === mapping.file ? `line ${first.linum}` : `line ${first.linum} of ${first.file}`,
+    (rule, msg, mapping, span) => {
+      const { file, chain } = mapping as IncludedMapping;
+      add(file, chain, lintResult(config, files.get(file)!.text, rule, msg, mapping, span));
+    },
+  );
+
+  const order = Array.from(files.keys());
+  const file = ({ chain }: IncludeLintResult) => chain.at(-1)!.file;
+  return Array.from(results.values())
+    .filter((result) => !suppressed.get(file(result))!(result.rule, result.linum))
+    .sort((a, b) => order.indexOf(file(a)) - order.indexOf(file(b)) || a.linum - b.linum);
+}
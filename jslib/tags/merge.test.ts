@@ -0,0 +1,93 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { parse, parseDefault, parseDefaultCollect } from '#tags/parseLine';
+import { arbInput } from '#tags/parseLine.arbitrary';
+import { format } from '#tags/format';
+import { diffMappings, mergeMappings, type MappingChange } from '#tags/merge';
+import { buildTree } from '#tags/tree';
+
+function tree(str: string) {
+  return buildTree(parseDefault(str));
+}
+
+function summary(changes: MappingChange[]) {
+  return changes.map(({ kind, path, from, to }) => [kind, path.join('::'), from?.linum ?? null, to?.linum ?? null]);
+}
+
+test('diff reports changes by label path', () => {
+  const before = tree('Biology\n  Cell Cytology\n    Mitosis\n  Botany\nChemistry x\nOld\n');
+  const after = tree('Biology\n  Cell Cell_Biology\nScience\n  Botany\n  Chemistry\n    Mitosis\nNew\n');
+  expect(summary(diffMappings(before, after))).toEqual([
+    ['Retargeted', 'Biology::Cell', 2, 2],
+    ['Added', 'Science', null, 3],
+    ['Reparented', 'Science::Botany', 4, 4],
+    ['Reparented', 'Science::Chemistry', 5, 5],
+    ['Retargeted', 'Science::Chemistry', 5, 5],
+    ['Reparented', 'Science::Chemistry::Mitosis', 3, 6],
+    ['Added', 'New', null, 7],
+    ['Removed', 'Old', 6, null],
+  ]);
+});
+
+test('diff reports a moved subtree once', () => {
+  const before = tree('A\n  b x\n    c\nb\n');
+  const after = tree('X\n  A\n    b y\n      c\nb\n');
+  expect(summary(diffMappings(before, after))).toEqual([
+    ['Added', 'X', null, 1],
+    ['Reparented', 'X::A', 1, 2],
+    ['Retargeted', 'X::A::b', 2, 3],
+  ]);
+});
+
+test('merge keeps one-sided changes and marks conflicts', () => {
+  const base = tree('a x\nb\n  c\nd y\ne\ni x\n');
+  const ours = tree('a x2\nb\n  c\n  f\nd y\ni w\n');
+  const theirs = tree('a x3\nb\nd z\ne\n  g\nh\n');
+  const { roots, conflicts } = mergeMappings(base, ours, theirs);
+  expect(conflicts).toEqual([['a'], ['i'], ['e']]);
+  const merged = format(roots, { conflictNames: ['mine', 'yours'] });
+  expect(merged).toBe(`<<<<<<< mine
+a x2
+=======
+a x3
+>>>>>>> yours
+b
+  f
+d z
+<<<<<<< mine
+i w
+=======
+>>>>>>> yours
+<<<<<<< mine
+=======
+e
+>>>>>>> yours
+  g
+h
+`);
+  expect(parseDefaultCollect(merged).diagnostics.map(({ code, linum }) => [code, linum])).toEqual([
+    ['ConflictMarker', 1], ['ConflictMarker', 3], ['ConflictMarker', 5],
+    ['ConflictMarker', 9], ['ConflictMarker', 11], ['ConflictMarker', 12],
+    ['ConflictMarker', 13], ['ConflictMarker', 14], ['ConflictMarker', 16],
+  ]);
+});
+
+test('merge takes changes made the same on both sides', () => {
+  const base = tree('a x\nb\n');
+  const { roots, conflicts } = mergeMappings(base, tree('a y\nc\n'), tree('c\na y\n'));
+  expect(conflicts).toEqual([]);
+  expect(format(roots)).toBe('a y\nc\n');
+});
+
+test('unchanged trees diff and merge cleanly', () => {
+  fc.assert(
+    fc.property(arbInput, ([_tree, str, lexOut]) => {
+      const roots = buildTree(parse(str, lexOut));
+      expect(diffMappings(roots, roots)).toEqual([]);
+      expect(mergeMappings(roots, roots, roots).conflicts).toEqual([]);
+    }),
+  );
+});
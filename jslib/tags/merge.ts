@@ -0,0 +1,135 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import type { FormatConflict, FormatNode } from '#tags/format';
+import { walkTree, type TagNode } from '#tags/tree';
+
+// Full label path as a map key
+function pathKey(path: string[]): string {
+  return JSON.stringify(path);
+}
+
+// First node of each path, as for duplicate labels in compileMapping()
+function byPath(roots: TagNode[]): Map<string, TagNode> {
+  const nodes = new Map<string, TagNode>();
+  for (const node of walkTree(roots)) {
+    const key = pathKey(node.path);
+    if (!nodes.has(key)) {
+      nodes.set(key, node);
+    }
+  }
+  return nodes;
+}
+
+export type MappingChangeKind =
+  | 'Added'
+  | 'Removed'
+  | 'Reparented' // moved under another parent, keeping its label
+  | 'Retargeted'; // same path, different mapping
+
+export interface MappingChange {
+  kind: MappingChangeKind,
+  path: string[], // in the new tree, except in the old tree for 'Removed'
+  from: TagNode | null, // in the old tree, null for 'Added'
+  to: TagNode | null, // in the new tree, null for 'Removed'
+}
+
+// Structural diff between two trees from buildTree(), keyed by full label path (not line)
+//
+// A removed label and an added label with the same label text are a move, reported as 'Reparented' only where its
+// parent did not move along with it; a mapping that also changed is reported as well, as 'Retargeted'
+// Changes are in new tree order, then removals in old tree order
+export function diffMappings(oldRoots: TagNode[], newRoots: TagNode[]): MappingChange[] {
+  const oldNodes = byPath(oldRoots), newNodes = byPath(newRoots);
+  const removed = Array.from(oldNodes.values()).filter(({ path }) => !newNodes.has(pathKey(path)));
+  // old node of each moved new path
+  const moved = new Map<string, TagNode>();
+  const changes: MappingChange[] = new Array();
+
+  for (const [key, to] of newNodes) {
+    let from = oldNodes.get(key);
+    if (from === undefined) {
+      const oldParent = to.parent !== null ? moved.get(pathKey(to.parent.path)) : undefined;
+      const along = oldParent !== undefined ? oldNodes.get(pathKey([...oldParent.path, to.label])) : undefined;
+      if (along !== undefined && removed.includes(along)) {
+        from = along;
+      } else {
+        // prefer a candidate with the same mapping
+        const candidates = removed.filter(({ label }) => label === to.label);
+        from = candidates.find(({ mapping }) => mapping === to.mapping) ?? candidates[0];
+        changes.push({ kind: from !== undefined ? 'Reparented' : 'Added', path: to.path, from: from ?? null, to });
+      }
+      if (from !== undefined) {
+        removed.splice(removed.indexOf(from), 1);
+        moved.set(key, from);
+      }
+    }
+    if (from !== undefined && from.mapping !== to.mapping) {
+      changes.push({ kind: 'Retargeted', path: to.path, from, to });
+    }
+  }
+
+  return changes.concat(removed.map((from) => ({ kind: 'Removed', path: from.path, from, to: null })));
+}
+
+export interface MergeResult {
+  roots: FormatNode[], // for format(), with conflict markers for each conflict
+  conflicts: string[][], // paths of conflicting labels
+}
+
+type Side = { mapping: string | null } | null;
+
+function same(a: Side, b: Side): boolean {
+  return a === null ? b === null : b !== null && a.mapping === b.mapping;
+}
+
+// Three-way merge of two trees from buildTree() changed from a common base, keyed by full label path
+//
+// Each label keeps a change made on only one side (adding, removing, or changing its mapping), or made the same on both
+// Differing changes on both sides conflict, as does removing a label on one side while the other keeps a child under it
+// Labels are in ours order, then labels only in theirs after their siblings; trivia is not kept
+export function mergeMappings(base: TagNode[], ours: TagNode[], theirs: TagNode[]): MergeResult {
+  const sides = [base, ours, theirs].map(byPath);
+  function side(nodes: Map<string, TagNode>, key: string): Side {
+    const node = nodes.get(key);
+    return node !== undefined ? { mapping: node.mapping } : null;
+  }
+
+  // merged label, or null if removed, of each path on either side
+  const merged = new Map<string, { node: TagNode, result: Side, conflict: FormatConflict | null }>();
+  for (const nodes of [sides[1], sides[2]]) {
+    for (const [key, node] of nodes) {
+      if (!merged.has(key)) {
+        const [b, o, t] = sides.map((nodes) => side(nodes, key));
+        const clean = same(o, t) || same(o, b) || same(t, b);
+        merged.set(key, { node, result: same(t, b) ? o : t, conflict: clean ? null : { ours: o, theirs: t } });
+      }
+    }
+  }
+  // a removed label with a kept child conflicts instead
+  for (const { node, result, conflict } of merged.values()) {
+    for (let parent = node.parent; (result !== null || conflict !== null) && parent !== null; parent = parent.parent) {
+      const entry = merged.get(pathKey(parent.path))!;
+      if (entry.result === null && entry.conflict === null) {
+        const key = pathKey(parent.path);
+        entry.conflict = { ours: side(sides[1], key), theirs: side(sides[2], key) };
+      }
+    }
+  }
+
+  const roots: FormatNode[] = new Array(), conflicts: string[][] = new Array();
+  const nodes = new Map<string, FormatNode>();
+  for (const [key, { node, result, conflict }] of merged) {
+    if (result !== null || conflict !== null) {
+      const formatted: FormatNode = { label: node.label, mapping: result !== null ? result.mapping : null, children: new Array() };
+      if (conflict !== null) {
+        formatted.conflict = conflict;
+        conflicts.push(node.path);
+      }
+      nodes.set(key, formatted);
+      // parents come first in either tree, so are already placed
+      (node.parent !== null ? nodes.get(pathKey(node.parent.path))!.children : roots).push(formatted);
+    }
+  }
+  return { roots, conflicts };
+}
@@ -11,14 +11,16 @@ const depthIdentifier = fc.createDepthIdentifier();
 class FakeToken {
   str: string;
   tag: Tag;
+  value: string | undefined; // lexer value, differing from str
 
-  constructor(str: string, tag: Tag) {
+  constructor(str: string, tag: Tag, value: string | undefined = undefined) {
     this.str = str;
     this.tag = tag;
+    this.value = value;
   }
 }
 
-// <nl>, <ws>, <nonws> have different possible substring units, which have *faked* semantics, as parser should use lexer output
+// <nl>, <ws>, <nonws>, <quoted> have different possible substring units, which have *faked* semantics, as parser should use lexer output
 // Each mapping has both single/multi codepoint/codeunit occurrences.
 function arbNl(maxLength: number): Arbitrary<FakeToken> {
   return fc.string({
@@ -44,6 +46,23 @@ function arbNonws(maxLength: number): Arbitrary<FakeToken> {
   }).map((s) => new FakeToken(s, 'nonws'));
 }
 
+// Value is the string between the quotes, which may contain real whitespace
+function arbQuoted(maxLength: number): Arbitrary<FakeToken> {
+  return fc.string({
+    unit: fc.constantFrom('m', 'n', ' ', '\u1030', '\u3000', String.fromCodePoint(0x10330), 'op', '\u1032 '),
+    maxLength,
+  }).map((s) => new FakeToken(`"${s}"`, 'quoted', s));
+}
+
+// Word is a run of adjacent <nonws>/<quoted>, mostly a single <nonws>; never 2 adjacent <nonws>
+function arbWord(maxLength: number): Arbitrary<FakeToken[]> {
+  return fc.oneof(
+    { arbitrary: arbNonws(maxLength).map((t) => [t]), weight: 4 },
+    fc.array(fc.oneof(arbNonws(maxLength), arbQuoted(maxLength)), { minLength: 1, maxLength: 3 })
+      .map((tokens) => tokens.filter(({ tag }, i) => !(tag === 'nonws' && i > 0 && tokens[i - 1].tag === 'nonws'))),
+  );
+}
+
 // Helper to accumulate generated AST to (raw string, lexer token stream) expected by parse()
 class Accumulator {
   raw: string;
@@ -58,7 +77,13 @@ class Accumulator {
     const start = this.raw.length;
     this.raw += token.str;
     devAssert(this.raw.length > start);
-    this.tokens.push({ tag: token.tag, start, end: this.raw.length });
+    this.tokens.push(token.value !== undefined ?
+      { tag: token.tag, start, end: this.raw.length, value: token.value } :
+      { tag: token.tag, start, end: this.raw.length });
+  }
+
+  appendWord(word: FakeToken[]) {
+    word.forEach((token) => this.appendToken(token));
   }
 
   // Used for specific constructed whitespace at start of line (including possible injected error)
@@ -70,23 +95,23 @@ class Accumulator {
   }
 }
 
-// Represents one nonempty line (not including leading whitespace): <nonws>(<ws><nonws>)*<ws>?
+// Represents one nonempty line (not including leading whitespace): word(<ws>word)*<ws>?
 class FakeLineTail {
-  label: FakeToken;
-  rest: [FakeToken, FakeToken][];
+  label: FakeToken[];
+  rest: [FakeToken, FakeToken[]][];
   trailing: FakeToken | null;
 
-  constructor(label: FakeToken, rest: [FakeToken, FakeToken][], trailing: FakeToken | null) {
+  constructor(label: FakeToken[], rest: [FakeToken, FakeToken[]][], trailing: FakeToken | null) {
     this.label = label;
     this.rest = rest;
     this.trailing = trailing;
   }
 
   accumulateTo(acc: Accumulator) {
-    acc.appendToken(this.label);
+    acc.appendWord(this.label);
     for (let i = 0; i < this.rest.length; i++) {
       acc.appendToken(this.rest[i][0]);
-      acc.appendToken(this.rest[i][1]);
+      acc.appendWord(this.rest[i][1]);
     }
     if (this.trailing !== null) {
       acc.appendToken(this.trailing);
@@ -96,8 +121,8 @@ class FakeLineTail {
 
 function arbLineTail(lineMax: number, tokenMax: number): Arbitrary<FakeLineTail> {
   return fc.tuple(
-    arbNonws(tokenMax),
-    fc.array(fc.tuple(arbWs(tokenMax), arbNonws(tokenMax)), { maxLength: lineMax, depthIdentifier }),
+    arbWord(tokenMax),
+    fc.array(fc.tuple(arbWs(tokenMax), arbWord(tokenMax)), { maxLength: lineMax, depthIdentifier }),
     fc.option(arbWs(tokenMax), { freq: 2 })
   ).map((d) => new FakeLineTail(...d));
 }
@@ -373,3 +398,13 @@ export type ParseInput = [FakeTree, string, Token<Tag>[]];
 
 export const arbInput: Arbitrary<ParseInput> = arbTreeMix.map((t) => t.toParseInput());
 export const arbInputWithError: Arbitrary<ParseInput> = arbTreeWithError.map(([t, e]) => t.toParseInputWithError(e)).filter((x) => x !== null);
+
+// Drops the value of one <quoted>, making it unterminated (an error)
+export const arbInputWithUnterminated: Arbitrary<ParseInput> = fc.tuple(arbInput, fc.nat()).map(([[tree, raw, tokens], roll]) => {
+  const quoted = tokens.flatMap(({ tag }, i) => tag === 'quoted' ? [i] : []);
+  if (!quoted.length) {
+    return null;
+  }
+  const index = quoted[roll % quoted.length], { tag, start, end } = tokens[index];
+  return [tree, raw, tokens.with(index, { tag, start, end })] as ParseInput;
+}).filter((x) => x !== null);
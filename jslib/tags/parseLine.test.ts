@@ -4,9 +4,9 @@
 import { expect, test } from 'vitest';
 import fc from 'fast-check';
 import type { Arbitrary } from 'fast-check';
-import { parse, TagError, type TagMapping } from '#tags/parseLine';
-import { arbInput, arbInputWithError, FakeTree, FakeNesting, type ParseInput } from '#tags/parseLine.arbitrary';
-import type { Token, Tag } from '#tags/lexWsOnly';
+import { parse, parseCollect, parseDefault, parseDefaultCollect, TagError, type TagMapping } from '#tags/parseLine';
+import { arbInput, arbInputWithError, arbInputWithUnterminated, FakeTree, FakeNesting, type ParseInput } from '#tags/parseLine.arbitrary';
+import { lex, type Token, type Tag } from '#tags/lexWsOnly';
 
 test('empty tree parses as empty', () => {
   const [tree, str, lexOut] = new FakeTree(null, [], false).toParseInput();
@@ -66,6 +66,188 @@ test('arbitrary tree with error does not parse', () => {
     200);
 });
 
+test('arbitrary tree with error reports diagnostics when recovering', () => {
+  checkHarnessWithError((str, lexOut) => {
+    const { mappings, diagnostics } = parseCollect(str, lexOut);
+    expect(diagnostics.length).toBeGreaterThan(0);
+
+    const errorLines = new Set(diagnostics.map(({ linum }) => linum));
+    expect(errorLines.size).toBe(diagnostics.length);
+    for (const { linum } of mappings) {
+      expect(errorLines.has(linum)).toBe(false);
+    }
+
+    // first error matches the throwing parse
+    expect(() => Array.from(parse(str, lexOut))).toThrowError(diagnostics[0].message);
+  }, 200);
+});
+
+test('diagnostic spans cover leading whitespace of offending line', () => {
+  checkHarnessWithError((str, lexOut) => {
+    for (const { line, span, column } of parseCollect(str, lexOut).diagnostics) {
+      expect(span.start).toBe(line.start);
+      expect(span.end).toBeGreaterThan(span.start);
+      expect(span.end).toBeLessThan(line.end);
+      expect(column).toEqual({ start: 0, end: span.end - span.start });
+    }
+  }, 200);
+});
+
+test('recovering parse resynchronises at the next line', () => {
+  const { mappings, diagnostics } = parseDefaultCollect(' a\nb\n  c\n d x\n  e\n\tf\ng\n');
+  expect(mappings.map(({ linum, nesting, label }) => [linum, nesting, label])).toEqual([
+    [2, 0, 'b'], [3, 1, 'c'], [5, 1, 'e'], [7, 0, 'g'],
+  ]);
+  expect(diagnostics.map(({ code, linum, line, span }) => [code, linum, line, span])).toEqual([
+    ['FirstLineNotTopLevel', 1, { start: 0, end: 3 }, { start: 0, end: 1 }],
+    ['InconsistentWhitespace', 4, { start: 9, end: 14 }, { start: 9, end: 10 }],
+    ['InconsistentWhitespace', 6, { start: 18, end: 21 }, { start: 18, end: 19 }],
+  ]);
+});
+
+test('recovering parse reports error on final unterminated line', () => {
+  const { mappings, diagnostics } = parseDefaultCollect('a\n  b\n c');
+  expect(mappings.length).toBe(2);
+  expect(diagnostics.map(({ linum, line }) => [linum, line])).toEqual([[3, { start: 6, end: 8 }]]);
+});
+
+test('thrown TagError carries structured fields', () => {
+  checkHarnessWithError((str, lexOut) => {
+    const [first] = parseCollect(str, lexOut).diagnostics;
+    try {
+      Array.from(parse(str, lexOut));
+    } catch (e) {
+      expect(e).toBeInstanceOf(TagError);
+      expect({ ...(e as TagError), message: (e as TagError).message }).toEqual({ ...first, name: 'TagError', chain: [] });
+      return;
+    }
+    /* v8 ignore next */ expect.unreachable();
+  }, 50);
+});
+
+test('indentation errors report expected versus actual whitespace', () => {
+  expect(() => Array.from(parseDefault('  a\n'))).toThrowError(expect.objectContaining({
+    code: 'FirstLineNotTopLevel',
+    indent: { expected: [''], actual: '  ' },
+  }));
+  expect(() => Array.from(parseDefault('a\n\tb\n\t\tc\n\t  d\n'))).toThrowError(expect.objectContaining({
+    code: 'InconsistentWhitespace',
+    linum: 4,
+    span: { start: 9, end: 12 },
+    indent: { expected: ['', '\t', '\t\t'], actual: '\t  ' },
+  }));
+});
+
+function parseComments(str: string): TagMapping[] {
+  return Array.from(parse(str, lex(str, 0, { comments: true })));
+}
+
+test('comments and blank lines attach as trivia', () => {
+  const str = '# head\n\na x # why\n  # inner\n\n  b\n# tail\n';
+  const [a, b] = parseComments(str);
+  expect(a).toMatchObject({ label: 'a', mapping: 'x', mappingSpan: { start: 10, end: 11 } });
+  expect(a.trivia).toEqual({
+    leading: [{ text: '# head', span: { start: 0, end: 6 } }, null],
+    trailing: { text: '# why', span: { start: 12, end: 17 } },
+    after: [{ text: '# inner', span: { start: 20, end: 27 } }, null],
+  });
+  expect(b).toMatchObject({ label: 'b', linum: 6 });
+  expect(b.trivia).toEqual({ leading: [], trailing: null, after: [{ text: '# tail', span: { start: 33, end: 39 } }] });
+});
+
+test('mappings without trivia have none', () => {
+  expect(parseComments('a\n b c\n').filter((m) => 'trivia' in m)).toEqual([]);
+  const [m] = parseDefault('a # b\n');
+  expect(m.mapping).toBe('# b');
+  expect('trivia' in m).toBe(false);
+});
+
+test('escaped # is part of label and mapping', () => {
+  const [m] = parseComments('C\\#  x\\#y z #c\n');
+  expect(m).toMatchObject({ label: 'C#', mapping: 'x#y z', labelSpan: { start: 0, end: 3 }, mappingSpan: { start: 5, end: 11 } });
+  expect(m.trivia?.trailing?.text).toBe('#c');
+});
+
+test('comment-only and error lines do not produce mappings', () => {
+  const { mappings, diagnostics } = parseCollect('#a\n  #b\n', lex('#a\n  #b\n', 0, { comments: true }));
+  expect(mappings).toEqual([]);
+  expect(diagnostics).toEqual([]);
+});
+
+function parseQuotes(str: string) {
+  return parseCollect(str, lex(str, 0, { quotes: true }));
+}
+
+test('quoted labels may contain whitespace, and adjacent words join', () => {
+  const { mappings, diagnostics } = parseQuotes('"Cell Biology" Cell_Biology\n  a"b c"\\"d x "y  z"\n');
+  expect(diagnostics).toEqual([]);
+  expect(mappings.map(({ label, mapping, labelSpan, mappingSpan }) => [label, mapping, labelSpan, mappingSpan])).toEqual([
+    ['Cell Biology', 'Cell_Biology', { start: 0, end: 14 }, { start: 15, end: 27 }],
+    ['ab c"d', 'x y  z', { start: 30, end: 39 }, { start: 40, end: 48 }],
+  ]);
+});
+
+test('unterminated quote skips its line but keeps its nesting', () => {
+  const { mappings, diagnostics } = parseQuotes('a\n  b "x\n    c\n"d\n');
+  expect(mappings.map(({ nesting, label }) => [nesting, label])).toEqual([[0, 'a'], [2, 'c']]);
+  expect(diagnostics).toEqual([
+    {
+      code: 'UnterminatedQuote',
+      message: 'Unterminated quoted string at line {2}: {  b "x}',
+      linum: 2,
+      line: { start: 2, end: 9 },
+      span: { start: 6, end: 8 },
+      column: { start: 4, end: 6 },
+      columns: { utf16: { start: 4, end: 6 }, codePoint: { start: 4, end: 6 }, grapheme: { start: 4, end: 6 } },
+      indent: null,
+    },
+    expect.objectContaining({ code: 'UnterminatedQuote', linum: 4, span: { start: 15, end: 17 } }),
+  ]);
+  expect(() => Array.from(parse('  "x', lex('  "x', 0, { quotes: true })))).toThrowError(expect.objectContaining({
+    code: 'FirstLineNotTopLevel',
+  }));
+});
+
+test('conflict marker lines are rejected', () => {
+  const str = 'a\n<<<<<<< ours\n  b x\n=======\n  b y\n>>>>>>> theirs\n=======x\n';
+  const { mappings, diagnostics } = parseDefaultCollect(str);
+  expect(mappings.map(({ nesting, label }) => [nesting, label])).toEqual([[0, 'a'], [1, 'b'], [1, 'b'], [0, '=======x']]);
+  expect(diagnostics.map(({ code, linum }) => [code, linum])).toEqual([['ConflictMarker', 2], ['ConflictMarker', 4], ['ConflictMarker', 6]]);
+  expect(diagnostics[1]).toEqual({
+    code: 'ConflictMarker',
+    message: 'Unresolved merge conflict marker at line {4}: {=======}',
+    linum: 4,
+    line: { start: 21, end: 29 },
+    span: { start: 21, end: 28 },
+    column: { start: 0, end: 7 },
+    columns: { utf16: { start: 0, end: 7 }, codePoint: { start: 0, end: 7 }, grapheme: { start: 0, end: 7 } },
+    indent: null,
+  });
+  expect(() => Array.from(parseDefault(str))).toThrowError(expect.objectContaining({ code: 'ConflictMarker' }));
+});
+
+test('arbitrary tree with unterminated quote reports it on its line', () => {
+  fc.assert(
+    fc.property(arbInputWithUnterminated, ([_tree, str, lexOut]) => {
+      const bad = lexOut.find(({ tag, value }) => tag === 'quoted' && value === undefined)!;
+      const { mappings, diagnostics } = parseCollect(str, lexOut);
+      expect(diagnostics.length).toBe(1);
+      expect(diagnostics[0]).toMatchObject({ code: 'UnterminatedQuote', span: { start: bad.start, end: bad.end }, indent: null });
+      expect(mappings.every(({ line }) => line.end <= bad.start || line.start >= bad.end)).toBe(true);
+      expect(() => Array.from(parse(str, lexOut))).toThrowError(TagError);
+    }),
+  );
+});
+
+function isWord(tag: Tag): boolean {
+  return tag === 'nonws' || tag === 'quoted';
+}
+
+// Text of a label or mapping span, with lexer values
+function cooked(str: string, lexOut: Token<Tag>[], { start, end }: { start: number, end: number }): string {
+  return lexOut.filter((t) => t.start >= start && t.end <= end).map((t) => t.value ?? str.substring(t.start, t.end)).join('');
+}
+
 const arbResult: Arbitrary<[FakeTree, string, Token<Tag>[], TagMapping[]]> =
       arbInput.map(([tree, str, lexOut]) => [tree, str, lexOut, Array.from(parse(str, lexOut))]);
 
@@ -79,9 +261,15 @@ test('arbitrary tree without error parses', () => {
   checkHarness((_tree, _str, lexOut, _result) => true);
 });
 
+test('recovering parse of tree without error matches', () => {
+  checkHarness((_tree, str, lexOut, result) => {
+    expect(parseCollect(str, lexOut)).toEqual({ mappings: result, diagnostics: [] });
+  });
+});
+
 test('only whitespace-only tree returns empty result', () => {
   checkHarness((_tree, _str, lexOut, result) => {
-    expect(result.length === 0).toBe(lexOut.filter(({ tag }) => tag === 'nonws').length === 0);
+    expect(result.length === 0).toBe(lexOut.filter(({ tag }) => isWord(tag)).length === 0);
   });
 });
 
@@ -136,12 +324,12 @@ test('nesting levels increase by at most 1', () => {
   });
 });
 
-test('every line with <nonws> produces output', () => {
+test('every line with a word produces output', () => {
   checkHarness((_tree, _str, lexOut, result) => {
     let i = 0, line = 1;
     for (const { linum } of result) {
-      // count <nl> until first <nonws> reached
-      while (i < lexOut.length && lexOut[i].tag !== 'nonws') {
+      // count <nl> until first word reached
+      while (i < lexOut.length && !isWord(lexOut[i].tag)) {
         if (lexOut[i].tag === 'nl') {
           line += 1;
         }
@@ -167,7 +355,23 @@ test('label + mapping fit within line', () => {
   });
 });
 
-test('label is the first <nonws> on output line', () => {
+test('label and mapping spans index into original string within line', () => {
+  checkHarness((_tree, str, lexOut, result) => {
+    for (const { line, label, mapping, labelSpan, mappingSpan } of result) {
+      expect(cooked(str, lexOut, labelSpan)).toBe(label);
+      expect(labelSpan.start).toBeGreaterThanOrEqual(line.start);
+      if (mapping === null) {
+        expect(mappingSpan).toBeNull();
+      } else {
+        expect(cooked(str, lexOut, mappingSpan!)).toBe(mapping);
+        expect(mappingSpan!.start).toBeGreaterThan(labelSpan.end);
+        expect(mappingSpan!.end).toBeLessThanOrEqual(line.end);
+      }
+    }
+  });
+});
+
+test('label is the first word on output line', () => {
   checkHarness((_tree, str, lexOut, result) => {
     let i = 0, line = 1;
     for (const { linum, label } of result) {
@@ -184,12 +388,16 @@ test('label is the first <nonws> on output line', () => {
         i += 1;
       }
 
-      expect(label).toBe(str.substring(lexOut[i].start, lexOut[i].end));
+      const start = i;
+      while (i < lexOut.length && isWord(lexOut[i].tag)) {
+        i += 1;
+      }
+      expect(label).toBe(cooked(str, lexOut, { start: lexOut[start].start, end: lexOut[i - 1].end }));
     }
   });
 });
 
-test('mapping spans second <nonws> to last <nonws> of output line', () => {
+test('mapping spans second word to last word of output line', () => {
   checkHarness((_tree, str, lexOut, result) => {
     let i = 0, line = 1;
     for (const { linum, mapping } of result) {
@@ -205,23 +413,26 @@ test('mapping spans second <nonws> to last <nonws> of output line', () => {
         i += 1;
       }
 
-      // skip a line-starting <ws>?<nonws><ws>
+      // skip a line-starting <ws>?word<ws>
       if (lexOut[i].tag === 'ws') {
         i += 1;
       }
-      i += 2;
+      while (isWord(lexOut[i].tag)) {
+        i += 1;
+      }
+      i += 1;
 
       const start = lexOut[i].start;
       let end = lexOut[i].end;
       i += 1;
       while (i < lexOut.length && lexOut[i].tag !== 'nl') {
-        if (lexOut[i].tag === 'nonws') {
+        if (isWord(lexOut[i].tag)) {
           end = lexOut[i].end;
         }
         i += 1;
       }
 
-      expect(mapping).toBe(str.substring(start, end));
+      expect(mapping).toBe(cooked(str, lexOut, { start, end }));
     }
   });
 });
@@ -2,25 +2,134 @@
 // GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
 
 import { devAssert, exhaustive } from '#util';
-import { lex, type LexStream, type Tag } from '#tags/lexWsOnly';
+import type { Span } from '#types';
+import { lex, type LexStream, type Tag, type Token } from '#tags/lexWsOnly';
+import type { IncludedMapping, IncludeSite } from '#tags/include';
+import { columnSpans, type Columns } from '#tags/position';
 
-export class TagError extends Error {
-  constructor(message: string, options?: { cause: any }) {
+export type TagErrorCode =
+  | 'FirstLineNotTopLevel' // leading whitespace on very first nonempty line
+  | 'InconsistentWhitespace' // leading whitespace matches no open nesting level
+  | 'NestingSkip' // nesting increases by more than one level
+  | 'LabelContainsSeparator' // label contains hierarchical tag separator
+  | 'InvalidLabelCharacter' // label contains character disallowed in Anki tags
+  | 'UnterminatedQuote' // quoted string without closing quote on its line
+  | 'MappingCycle' // tags mapping back to themselves through other mappings
+  | 'ConflictMarker' // unresolved merge conflict marker line, e.g. from merge()
+  | 'InvalidWhitespace' // whitespace character rejected by a strict lexer, see strictLexer()
+  | 'DuplicateLabel' // sibling labels the same, where they must be distinct keys, see toYaml()
+  | 'InvalidHierarchy' // JSON or YAML not in the nested form of a mapping file, see fromYaml()
+  | 'InvalidInclude' // include directive without a readable file, or with lines nested under it, see parseIncludes()
+  | 'IncludeCycle'; // file including itself through include directives
+
+export interface Indentation {
+  expected: string[], // leading whitespace of each open nesting level; any, or any extension of the last, is accepted
+  actual: string,
+}
+
+export interface TagDiagnostic {
+  code: TagErrorCode,
+  message: string, // '<description> at line {<linum>}: {<text>}'
+  linum: number,
+  line: Span, // substring index for the offending line in raw string
+  span: Span, // substring index for the offending part of the line (leading whitespace for indentation errors)
+  column: Span, // span relative to start of line
+  columns: Columns<Span>, // column span in UTF-16, code points and grapheme clusters
+  indent: Indentation | null, // only for indentation errors
+}
+
+// Description part of a TagDiagnostic message, for display next to its line
+export function bareMessage(message: string): string {
+  return message.replace(/ at line \{\d+\}: \{.*\}$/sv, '');
+}
+
+export class TagError extends Error implements TagDiagnostic {
+  code: TagErrorCode;
+  linum: number;
+  line: Span;
+  span: Span;
+  column: Span;
+  columns: Columns<Span>;
+  indent: Indentation | null;
+  chain: IncludeSite[]; // include directives leading to the error, then the error itself; empty if not from parseIncludes()
+
+  constructor(
+    { code, message, linum, line, span, column, columns, indent, chain = [] }: TagDiagnostic & { chain?: IncludeSite[] },
+    options?: { cause: any },
+  ) {
     super(message, options);
     this.name = 'TagError';
+    this.code = code;
+    this.linum = linum;
+    this.line = line;
+    this.span = span;
+    this.column = column;
+    this.columns = columns;
+    this.indent = indent;
+    this.chain = chain;
+  }
+
+  // For errors found after parsing, at a span of a mapping (default its line, without trailing whitespace or comment)
+  static atMapping(
+    code: TagErrorCode,
+    msg: string,
+    mapping: TagMapping | IncludedMapping,
+    span: Span = { start: mapping.line.start, end: (mapping.mappingSpan ?? mapping.labelSpan).end },
+  ): TagError {
+    const { linum, line, lineText, label } = mapping, column = { start: span.start - line.start, end: span.end - line.start };
+    return new TagError({
+      code,
+      message: `${msg} at line {${linum}}: {${label}}`,
+      linum,
+      line,
+      span,
+      column,
+      columns: columnSpans(lineText, column),
+      indent: null,
+      chain: 'chain' in mapping ? [...mapping.chain, { file: mapping.file, linum }] : [],
+    });
   }
 }
 
+export interface TagComment {
+  text: string, // from '#' to end of line, excluding newline
+  span: Span, // substring index for the comment in raw string
+}
+
+// Full lines without a mapping: a comment, or null for a blank (whitespace-only) line
+export type TriviaLine = TagComment | null;
+
+export interface TagTrivia {
+  leading: TriviaLine[], // lines before the very first mapping, so only on it
+  trailing: TagComment | null, // comment at end of the mapping line
+  after: TriviaLine[], // lines after the mapping line, before the next mapping line
+}
+
 export interface TagMapping {
   linum: number,
-  line: { start: number, end: number }, // substring index for the line in raw string
+  line: Span, // substring index for the line in raw string
+  lineText: string, // the line in raw string, for columns of errors found after parsing
   nesting: number, // nesting level of this mapping
   label: string,
   mapping: string | null,
+  labelSpan: Span, // substring index for the label in raw string
+  mappingSpan: Span | null, // substring index for the mapping in raw string
+  trivia?: TagTrivia, // only if any nonempty
 }
 
 export type MappingStream = Iterable<TagMapping>;
 
+// Where to start parsing: must be the start of a line, and its line number
+export interface ParsePosition {
+  linum: number,
+  offset: number,
+}
+
+export interface ParseResult {
+  mappings: TagMapping[],
+  diagnostics: TagDiagnostic[],
+}
+
 interface LineBreak {
   state: 'LineBreak'; // last seen line component
 }
@@ -33,12 +142,14 @@ interface Label {
   state: 'Label';
   nesting: number;
   label: string;
+  labelSpan: Span;
 }
 
 interface LabelWs {
   state: 'LabelWs';
   nesting: number;
   label: string;
+  labelSpan: Span;
   mappingStart: number;
 }
 
@@ -46,60 +157,146 @@ interface Mapping {
   state: 'Mapping';
   nesting: number;
   label: string;
+  labelSpan: Span;
   mappingStart: number;
   mappingEnd: number; // current end of mapping (before whitespace)
+  mapping: string; // current mapping, with lexer values for <nonws>/<quoted>
 }
 
 interface MappingWs {
   state: 'MappingWs';
   nesting: number;
   label: string;
+  labelSpan: Span;
   mappingStart: number;
   mappingEnd: number; // current end of mapping (before whitespace)
+  mapping: string; // current mapping, with lexer values for <nonws>/<quoted>
+}
+
+interface Skip {
+  state: 'Skip'; // rest of line ignored due to error
+  error: TagDiagnostic;
+}
+
+type State = LineBreak | BeginWs | Label | LabelWs | Mapping | MappingWs | Skip;
+
+// Git conflict marker, as the raw first word of a line
+const re_conflict = /^(?:<{7}|\|{7}|={7}|>{7})$/v;
+
+// Raw string as read by the parser, which only takes substrings within the line being parsed, so need not be whole
+export interface ParseSource {
+  substring(start: number, end: number): string,
 }
 
-type State = LineBreak | BeginWs | Label | LabelWs | Mapping | MappingWs;
+// Parser fed one token at a time, see lineParser()
+export interface LineParser {
+  push(token: Token<Tag>): TagMapping | null, // mapping released by the token, if any
+  end(): TagMapping | null, // at end of input, the last mapping, if any
+}
 
-// Given a stream of wsOnly:Token<Tag>s (<nl>|<ws>|<nonws>, no 2 adjacent <ws> / 2 adjacent <nonws>), with raw string,
-// parses it into individual nonempty lines
+// Given a stream of wsOnly:Token<Tag>s (<nl>|<ws>|<nonws>|<comment>|<quoted>, no 2 adjacent <ws> / 2 adjacent <nonws>,
+// <comment> only at end of line), with raw string, parses it into individual nonempty lines
+//
+// A word is a maximal run of adjacent <nonws>/<quoted>, e.g. a"b c" is one word
 //
-// Lines that contain only whitespace are ignored
+// Lines that contain only whitespace and/or a <comment> are ignored, except as trivia attached to a neighbouring mapping
 // Leading <ws> is used for nesting level
 // - top-level is no leading whitespace
-// - very first nonempty line must be top-level (else throws)
+// - very first nonempty line must be top-level (else error)
 // - any increase in whitespace (full prefix match) increases nesting
-// - inconsistent whitespace (not a match to a previous nesting level) throws
-// First <nonws> is extracted as 'label'
-// Span between second <nonws> and last <nonws> in the line, inclusive, is extracted as 'mapping'
+// - inconsistent whitespace (not a match to a previous nesting level) is an error
+// A top-level line starting with a conflict marker word (e.g. '<<<<<<<', '=======') is an error, resetting nesting
+// First word is extracted as 'label'
+// Span between second word and last word in the line, inclusive, is extracted as 'mapping'
 // Trailing <ws> always ignored
-export function* parse(str: string, tags: LexStream<Tag>): MappingStream {
-  let linum = 1, lineStart = 0, s = { state: 'LineBreak' } as State;
+// <nonws>/<quoted> with a lexer value (e.g. escapes, quotes) uses the value instead in label and mapping
+// <quoted> without a lexer value is unterminated, an error which still keeps the line's nesting level
+// Each mapping is held back until the next nonempty line starts (or end of input), to attach trivia after it
+// Without trivia, none is kept, so nothing builds up over a run of lines without a mapping
+//
+// Each error is passed to report() once the line ends; if it returns, the whole line is skipped
+// Starting from the middle of str, tags must start at the given position, and all nesting is relative to its line;
+// there is no leading trivia, as there are earlier lines
+export function lineParser(str: ParseSource, report: (d: TagDiagnostic) => void, from: ParsePosition, withTrivia = true): LineParser {
+  let linum = from.linum, lineStart = from.offset, s = { state: 'LineBreak' } as State;
   // whitespace prefixes to current nesting level (including top-level)
   // empty is sentinel for "never seen a nonempty line", since very first mapping must be top-level
   const wsStack = new Array();
+  // comment on current line; trivia lines since last mapping; last mapping held back until trivia after it is known
+  let lineComment: TagComment | null = null, trivia: TriviaLine[] = new Array(), first = from.offset === 0;
+  let pending: { mapping: TagMapping, leading: TriviaLine[], trailing: TagComment | null } | null = null;
 
   function hasLabel() {
-    return s.state !== 'LineBreak' && s.state !== 'BeginWs';
+    return s.state !== 'LineBreak' && s.state !== 'BeginWs' && s.state !== 'Skip';
   }
-  function marshal(end: number) {
-    devAssert(s.state !== 'LineBreak' && s.state !== 'BeginWs');
+  function marshal(end: number): TagMapping {
+    devAssert(s.state !== 'LineBreak' && s.state !== 'BeginWs' && s.state !== 'Skip');
     return {
       linum,
       line: { start: lineStart, end },
+      lineText: str.substring(lineStart, end),
       nesting: s.nesting,
       label: s.label,
-      mapping: (s.state === 'Mapping' || s.state === 'MappingWs') ? str.substring(s.mappingStart, s.mappingEnd) : null,
+      mapping: (s.state === 'Mapping' || s.state === 'MappingWs') ? s.mapping : null,
+      labelSpan: s.labelSpan,
+      mappingSpan: (s.state === 'Mapping' || s.state === 'MappingWs') ? { start: s.mappingStart, end: s.mappingEnd } : null,
     };
   }
+  // Ends current line, holding back its mapping or adding it to trivia
+  // Trivia is normally released with the previous mapping by now; any left is after a skipped line, and dropped
+  function hold(end: number) {
+    if (hasLabel()) {
+      pending = { mapping: marshal(end), leading: first ? trivia : [], trailing: withTrivia ? lineComment : null };
+      trivia = new Array();
+      first = false;
+    } else if (withTrivia && s.state !== 'Skip' && (lineComment !== null || end > lineStart)) {
+      trivia.push(lineComment);
+    }
+  }
+  // Returns held back mapping (if any), with all trivia after it
+  function release(): TagMapping | null {
+    if (pending === null) {
+      return null;
+    }
+    const { mapping, leading, trailing } = pending, after = trivia;
+    pending = null;
+    trivia = new Array();
+    return (leading.length || trailing !== null || after.length) ? { ...mapping, trivia: { leading, trailing, after } } : mapping;
+  }
+  function endLine(end: number) {
+    if (s.state === 'Skip') {
+      report({ ...s.error, line: { start: lineStart, end } });
+    }
+  }
 
-  for (const { tag, start, end } of tags) {
-    function throwError(msg: string, cause?: any) {
-      throw new TagError(`${msg} at line {${linum}}: {${str.substring(lineStart, end)}}`, { cause });
+  let lastEnd = lineStart;
+  function push({ tag, start, end, value }: Token<Tag>): TagMapping | null {
+    lastEnd = end;
+    let released: TagMapping | null = null;
+    // Skips the rest of the line, reporting the error at its end
+    // Default span is leading whitespace, for indentation errors
+    function skipError(code: TagErrorCode, msg: string, span: Span | null = null): Skip {
+      const text = str.substring(lineStart, end);
+      const column = span !== null ? { start: span.start - lineStart, end: span.end - lineStart } : { start: 0, end: start - lineStart };
+      return {
+        state: 'Skip',
+        error: {
+          code,
+          message: `${msg} at line {${linum}}: {${text}}`,
+          linum,
+          line: { start: lineStart, end },
+          span: span ?? { start: lineStart, end: start },
+          column,
+          columns: columnSpans(text, column),
+          indent: span === null ? { expected: Array.from(wsStack.length ? wsStack : ['']), actual: str.substring(lineStart, start) } : null,
+        },
+      };
     }
 
-    function computeNesting(): number {
+    // Returns null if error
+    function computeNesting(): number | null {
       if (!wsStack.length) {
-        throwError('First nonempty line must be a top-level tag (with no leading whitespace)');
+        return null;
       }
 
       // since this is triggered on the <nonws> token following leading <ws>, goes up to start of current token
@@ -110,26 +307,28 @@ export function* parse(str: string, tags: LexStream<Tag>): MappingStream {
           wsStack.push(ws);
         }
       } else {
-        // find next exact match of ws in wsStack
-        while (ws !== wsStack[wsStack.length - 1]) {
-          // must throw before wsStack empties as its first entry must be '', while ws is nonempty
-          if (ws.length >= wsStack[wsStack.length - 1].length) {
-            throwError(`Inconsistent whitespace at nesting level ${wsStack.length}`);
+        // find next exact match of ws in wsStack, only committing to it if found
+        let level = wsStack.length - 1;
+        while (ws !== wsStack[level]) {
+          // must fail before level underflows as wsStack[0] must be '', while ws is nonempty
+          if (ws.length >= wsStack[level].length) {
+            return null;
           }
-          wsStack.pop();
+          level -= 1;
         }
+        wsStack.length = level + 1;
       }
       return wsStack.length - 1;
     }
 
     switch (tag) {
       case 'nl':
-        if (hasLabel()) {
-          yield marshal(end);
-        }
+        hold(end);
+        endLine(end);
 
         linum += 1;
         lineStart = end;
+        lineComment = null;
         s = { state: 'LineBreak' };
         break;
       case 'ws':
@@ -145,53 +344,161 @@ export function* parse(str: string, tags: LexStream<Tag>): MappingStream {
             // ignore possibly-trailing <ws> for now
             s = { ...s, state: 'MappingWs' };
             break;
+          case 'Skip':
+            break;
           /* v8 ignore next */ default: devAssert(false);
         }
         break;
       case 'nonws':
+      case 'quoted': {
+        if (s.state === 'LineBreak' || s.state === 'BeginWs') {
+          // a new nonempty line ends trivia after the last mapping
+          released = release();
+        }
+
+        const text = value ?? str.substring(start, end);
         switch (s.state) {
           case 'LineBreak':
             // new top-level tag, reset stack
             wsStack.length = 0;
             wsStack.push('');
 
+            if (re_conflict.test(str.substring(start, end))) {
+              s = skipError('ConflictMarker', 'Unresolved merge conflict marker', { start, end });
+            } else {
+              s = { ...s,
+                state: 'Label',
+                nesting: 0,
+                label: text,
+                labelSpan: { start, end },
+              };
+            }
+            break;
+          case 'BeginWs': {
+            const nesting = computeNesting();
+            if (nesting !== null) {
+              s = { ...s,
+                state: 'Label',
+                nesting,
+                label: text,
+                labelSpan: { start, end },
+              };
+            } else if (!wsStack.length) {
+              s = skipError('FirstLineNotTopLevel', 'First nonempty line must be a top-level tag (with no leading whitespace)');
+            } else {
+              s = skipError('InconsistentWhitespace', `Inconsistent whitespace at nesting level ${wsStack.length}`);
+            }
+            break;
+          }
+          case 'Label':
+            // adjacent <nonws>/<quoted> continue the word
             s = { ...s,
-              state: 'Label',
-              nesting: 0,
-              label: str.substring(start, end),
+              label: s.label + text,
+              labelSpan: { start: s.labelSpan.start, end },
             };
             break;
-          case 'BeginWs':
+          case 'LabelWs':
             s = { ...s,
-              state: 'Label',
-              nesting: computeNesting(),
-              label: str.substring(start, end),
+              state: 'Mapping',
+              mappingEnd: end,
+              mapping: text,
             };
             break;
-          case 'LabelWs':
           case 'MappingWs':
             s = { ...s,
               state: 'Mapping',
               mappingEnd: end, // update end index with current last <nonws>
+              mapping: s.mapping + str.substring(s.mappingEnd, start) + text,
             };
             break;
+          case 'Mapping':
+            s = { ...s,
+              mappingEnd: end,
+              mapping: s.mapping + text,
+            };
+            break;
+          case 'Skip':
+            break;
           /* v8 ignore next */ default: devAssert(false);
         }
+
+        // after any indentation error, as nesting of the line still counts
+        if (tag === 'quoted' && value === undefined && s.state !== 'Skip') {
+          s = skipError('UnterminatedQuote', 'Unterminated quoted string', { start, end });
+        }
+        break;
+      }
+      case 'comment':
+        if (s.state !== 'Skip') {
+          lineComment = { text: str.substring(start, end), span: { start, end } };
+        }
         break;
       /* v8 ignore next */ default: exhaustive(tag);
     }
+    return released;
   }
 
-  if (hasLabel()) {
-    yield marshal(str.length);
+  function end(): TagMapping | null {
+    // end of input is end of last token, for partial tags; whitespace-only unterminated last line is not trivia
+    if (s.state !== 'BeginWs' || lineComment !== null) {
+      hold(lastEnd);
+    }
+    endLine(lastEnd);
+    return release();
+  }
+
+  return { push, end };
+}
+
+// Runs lineParser() over a whole stream of tokens
+function* parseReporting(str: string, tags: LexStream<Tag>, report: (d: TagDiagnostic) => void, from: ParsePosition): MappingStream {
+  const parser = lineParser(str, report, from);
+  for (const token of tags) {
+    const m = parser.push(token);
+    if (m !== null) {
+      yield m;
+    }
   }
+  const m = parser.end();
+  if (m !== null) {
+    yield m;
+  }
+}
 
-  return;
+// Throws TagError at the first error, see lineParser()
+export function parse(str: string, tags: LexStream<Tag>, from: ParsePosition = { linum: 1, offset: 0 }): MappingStream {
+  return parseReporting(str, tags, (d) => { throw new TagError(d); }, from);
 }
 
-// Convenience function to use associated wsOnly lexer
+// Recovers from each error by skipping the offending line, see lineParser()
+// Yields all valid mappings, then returns the list of errors
+export function* parseRecovering(
+  str: string,
+  tags: LexStream<Tag>,
+  from: ParsePosition = { linum: 1, offset: 0 },
+): Generator<TagMapping, TagDiagnostic[]> {
+  const diagnostics: TagDiagnostic[] = new Array();
+  yield* parseReporting(str, tags, (d) => { diagnostics.push(d); }, from);
+  return diagnostics;
+}
+
+// Runs parseRecovering() to completion
+export function parseCollect(str: string, tags: LexStream<Tag>, from: ParsePosition = { linum: 1, offset: 0 }): ParseResult {
+  const mappings: TagMapping[] = new Array(), gen = parseRecovering(str, tags, from);
+  let next;
+  while (!(next = gen.next()).done) {
+    mappings.push(next.value);
+  }
+  return { mappings, diagnostics: next.value };
+}
+
+// Convenience function to use associated wsOnly lexer; see parseWith() for others
 /* v8 ignore start */
 export function parseDefault(str: string): MappingStream {
   return parse(str, lex(str));
 }
+
+export function parseDefaultCollect(str: string): ParseResult {
+  return parseCollect(str, lex(str));
+}
 /* v8 ignore stop */
@@ -0,0 +1,57 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { lex } from '#tags/lexWsOnly';
+import { parseCollect, TagError } from '#tags/parseLine';
+import { positionIndex, type ColumnUnit } from '#tags/position';
+
+const flag = '\u{1F3F3}\uFE0F\u200D\u{1F308}'; // one cluster of 4 code points, 6 code units
+
+test('columns count code units, code points and grapheme clusters', () => {
+  const str = 'Bio \u751F\u7269\n\u{1F600}' + flag + ' e\u0301 x\x85y';
+  const index = positionIndex(str, lex(str));
+  expect(index.position(19)).toEqual({ linum: 2, column: { utf16: 12, codePoint: 9, grapheme: 5 } });
+  expect(index.position(21)).toEqual({ linum: 3, column: { utf16: 0, codePoint: 0, grapheme: 0 } });
+  expect(index.offset(2, 5, 'grapheme')).toBe(19);
+  expect(index.offset(2, 9, 'codePoint')).toBe(19);
+  expect(index.offset(2, 12)).toBe(19);
+  // past the end of a line or the text
+  expect(index.offset(1, 9, 'grapheme')).toBe(6);
+  expect(index.offset(4, 0)).toBe(str.length);
+
+  // lines are as the lexer breaks them
+  const ascii = positionIndex(str, lex(str, 0, { ascii: true }));
+  expect(ascii.position(21)).toEqual({ linum: 2, column: { utf16: 14, codePoint: 11, grapheme: 7 } });
+});
+
+test('every column of every line round-trips through its offset', () => {
+  fc.assert(
+    fc.property(fc.string({ unit: fc.constantFrom('a', ' ', '\n', '\r\n', '\x85', '\u{10300}', 'e\u0301', flag) }), (str) => {
+      const index = positionIndex(str, lex(str)), lines = index.position(str.length).linum;
+      for (let linum = 1; linum <= lines; linum++) {
+        const end = index.position(index.offset(linum, Infinity)).column;
+        for (const unit of ['utf16', 'codePoint', 'grapheme'] as ColumnUnit[]) {
+          for (let column = 0; column <= end[unit] + 1; column++) {
+            const { linum: l, column: c } = index.position(index.offset(linum, column, unit));
+            expect([l, c[unit]]).toEqual([linum, Math.min(column, end[unit])]);
+          }
+        }
+      }
+    }),
+  );
+});
+
+test('diagnostics report columns in each unit', () => {
+  const str = 'a\n\u{1F600}e\u0301 "x\n';
+  const { mappings, diagnostics } = parseCollect(str, lex(str, 0, { quotes: true }));
+  const columns = { utf16: { start: 5, end: 7 }, codePoint: { start: 4, end: 6 }, grapheme: { start: 3, end: 5 } };
+  expect(diagnostics).toMatchObject([{ code: 'UnterminatedQuote', column: { start: 5, end: 7 }, columns }]);
+
+  // errors found after parsing have them from the text of their line
+  const line2 = { ...mappings[0], linum: 2, line: { start: 2, end: str.length }, lineText: str.substring(2), labelSpan: { start: 2, end: 6 } };
+  expect(TagError.atMapping('MappingCycle', 'Cycle', line2).columns).toEqual({
+    utf16: { start: 0, end: 4 }, codePoint: { start: 0, end: 3 }, grapheme: { start: 0, end: 2 },
+  });
+});
@@ -0,0 +1,106 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { devAssert } from '#util';
+import type { LexStream, Span } from '#types';
+import type { Tag } from '#tags/lexWsOnly';
+
+// Offsets (Token, Span) are in UTF-16 code units, which drift from visible columns at astral characters (e.g. emoji)
+// and at combining sequences; a grapheme cluster is what a user sees as one character
+export type ColumnUnit = 'utf16' | 'codePoint' | 'grapheme';
+export type Columns<T = number> = Record<ColumnUnit, T>;
+
+export interface TextPosition {
+  linum: number, // 1-based, as TagDiagnostic
+  column: Columns, // 0-based, from start of line
+}
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+// Column at the end of text, the start of its line up to some offset
+// An offset splitting a surrogate pair or grapheme cluster is counted after the code point or cluster it splits
+export function columnsOf(text: string): Columns {
+  let codePoint = 0, grapheme = 0;
+  for (const _ of text) {
+    codePoint++;
+  }
+  for (const _ of segmenter.segment(text)) {
+    grapheme++;
+  }
+  return { utf16: text.length, codePoint, grapheme };
+}
+
+// Column span in each unit, given the text of its line (at least up to its end) and the span relative to line start
+export function columnSpans(line: string, { start, end }: Span): Columns<Span> {
+  const from = columnsOf(line.substring(0, start)), to = columnsOf(line.substring(0, end));
+  return {
+    utf16: { start: from.utf16, end: to.utf16 },
+    codePoint: { start: from.codePoint, end: to.codePoint },
+    grapheme: { start: from.grapheme, end: to.grapheme },
+  };
+}
+
+// Offset into text at a column in some unit, or the end of text past its last column
+function advance(text: string, column: number, unit: ColumnUnit): number {
+  if (unit === 'utf16') {
+    return Math.min(column, text.length);
+  }
+  let n = 0;
+  if (unit === 'codePoint') {
+    for (let i = 0; i < text.length; i += text.codePointAt(i)! > 0xFFFF ? 2 : 1) {
+      if (n++ === column) {
+        return i;
+      }
+    }
+  } else {
+    for (const { index } of segmenter.segment(text)) {
+      if (n++ === column) {
+        return index;
+      }
+    }
+  }
+  return text.length;
+}
+
+// Converts between offsets and line and column in each unit, with lines as the lexer breaks them
+export interface PositionIndex {
+  position(offset: number): TextPosition,
+  offset(linum: number, column: number, unit?: ColumnUnit): number, // clamped to the line, excluding its line break; default unit UTF-16
+}
+
+// Line index from the <nl> tokens of a lex of the whole string
+export function positionIndex(str: string, tags: LexStream<Tag>): PositionIndex {
+  // offset of the start of each line, and of the end of its content
+  const starts = [0], ends: number[] = new Array();
+  for (const { tag, start, end } of tags) {
+    if (tag === 'nl') {
+      ends.push(start);
+      starts.push(end);
+    }
+  }
+  ends.push(str.length);
+
+  function position(offset: number): TextPosition {
+    // last line starting at or before offset
+    let low = 0, high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >>> 1;
+      if (starts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { linum: low + 1, column: columnsOf(str.substring(starts[low], offset)) };
+  }
+
+  function offset(linum: number, column: number, unit: ColumnUnit = 'utf16'): number {
+    devAssert(linum >= 1);
+    if (linum > starts.length) {
+      return str.length;
+    }
+    return starts[linum - 1] + advance(str.substring(starts[linum - 1], ends[linum - 1]), column, unit);
+  }
+
+  return { position, offset };
+}
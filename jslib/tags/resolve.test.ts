@@ -0,0 +1,81 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { parse, parseDefault, TagError } from '#tags/parseLine';
+import { arbInput } from '#tags/parseLine.arbitrary';
+import { resolve } from '#tags/resolve';
+import { lex } from '#tags/lexWsOnly';
+import { buildTree, walkTree } from '#tags/tree';
+
+test('nested labels resolve to hierarchical tags', () => {
+  const result = Array.from(resolve(parseDefault('Biology\n  Cell bio\n    Mitosis\n  Plant\nChemistry\n')));
+  expect(result.map(({ tag }) => tag)).toEqual(['Biology', 'Biology::Cell', 'Biology::Cell::Mitosis', 'Biology::Plant', 'Chemistry']);
+  expect(result[1].mapping).toBe('bio');
+});
+
+test('quoted labels may contain whitespace', () => {
+  const str = 'a\n "b c"\n';
+  expect(Array.from(resolve(parse(str, lex(str, 0, { quotes: true })))).map(({ tag }) => tag)).toEqual(['a', 'a::b c']);
+  const child = '"a b"\n c\n';
+  expect(Array.from(resolve(parse(child, lex(child, 0, { quotes: true })))).map(({ tag }) => tag)).toEqual(['a b', 'a b::c']);
+});
+
+test('separator is configurable', () => {
+  const result = Array.from(resolve(parseDefault('a\n b\n  c\n'), '/'));
+  expect(result.map(({ tag }) => tag)).toEqual(['a', 'a/b', 'a/b/c']);
+});
+
+test.for([
+  ['separator', 'a\n b::c\n', '::', 'LabelContainsSeparator'],
+  ['custom separator', 'a\n b/c\n', '/', 'LabelContainsSeparator'],
+  ['double quote', 'a\n b"c\n', '::', 'InvalidLabelCharacter'],
+  ['control character', 'a\n b\x01c\n', '::', 'InvalidLabelCharacter'],
+  ['separator not allowed in tags', 'a\n b\n', '"', 'InvalidLabelCharacter'],
+])('label containing %s throws with line number', ([, str, separator, code]) => {
+  expect(() => Array.from(resolve(parseDefault(str), separator))).toThrowError(TagError);
+  expect(() => Array.from(resolve(parseDefault(str), separator))).toThrowError(expect.objectContaining({
+    code,
+    linum: 2,
+    line: { start: 2, end: str.length },
+  }));
+});
+
+test('errors have columns in each unit', () => {
+  const str = 'a\n \u{1F600}e\u0301"\n';
+  expect(() => Array.from(resolve(parseDefault(str)))).toThrowError(expect.objectContaining({
+    code: 'InvalidLabelCharacter',
+    column: { start: 0, end: 6 },
+    columns: { utf16: { start: 0, end: 6 }, codePoint: { start: 0, end: 5 }, grapheme: { start: 0, end: 4 } },
+  }));
+});
+
+test('empty separator throws', () => {
+  expect(() => Array.from(resolve(parseDefault('a\n'), ''))).toThrowError(new Error('Empty hierarchy separator'));
+});
+
+test('characters not allowed are reported in the whole tag', () => {
+  expect(() => Array.from(resolve(parseDefault('a\n b"c\n')))).toThrowError('Tag \'a::b"c\' contains character U+0022 not allowed in Anki tags');
+  expect(() => Array.from(resolve(parseDefault('a\n b\n'), '\x01'))).toThrowError('Tag \'a\x01b\' contains character U+0001');
+});
+
+test('nesting skipping a level throws', () => {
+  const mapping = { linum: 1, line: { start: 0, end: 1 }, lineText: 'a', nesting: 1, label: 'a', mapping: null, labelSpan: { start: 0, end: 1 }, mappingSpan: null };
+  expect(() => Array.from(resolve([mapping]))).toThrowError(TagError);
+});
+
+test('resolved tags are tree paths joined by separator', () => {
+  fc.assert(
+    fc.property(arbInput, ([_tree, str, lexOut]) => {
+      const result = Array.from(parse(str, lexOut));
+      const resolved = Array.from(resolve(result));
+      const nodes = Array.from(walkTree(buildTree(result)));
+      expect(resolved.length).toBe(nodes.length);
+      resolved.forEach(({ tag, ...rest }, i) => {
+        expect(rest).toEqual(result[i]);
+        expect(tag).toBe(nodes[i].path.join('::'));
+      });
+    }),
+  );
+});
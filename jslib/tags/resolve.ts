@@ -0,0 +1,61 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { TagError, type TagErrorCode, type TagMapping } from '#tags/parseLine';
+
+export interface ResolvedMapping extends TagMapping {
+  tag: string, // fully qualified hierarchical tag name, ancestor labels joined by separator
+}
+
+// Characters Anki refuses (or silently rewrites) in a tag name: whitespace separates tags, plus ASCII control and '"'
+// Whitespace is allowed in labels (which must be quoted) as they name source tags, but not in the tags they map to
+export const re_whitespace = /\p{White_Space}/v;
+const re_invalid = /[\p{Cc}"]/v, re_invalidTag = /[\p{White_Space}\p{Cc}"]/v;
+
+// First character of a tag that Anki refuses, as 'character U+XXXX'; null if none
+// Whitespace is only refused if not allowed, as in a label
+export function invalidTagCharacter(tag: string, allowWhitespace: boolean = false): string | null {
+  const invalid = (allowWhitespace ? re_invalid : re_invalidTag).exec(tag);
+  return invalid !== null ? `character U+${invalid[0].codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}` : null;
+}
+
+// Given a stream of TagMappings, resolves each label to its fully qualified Anki tag name, e.g. 'Biology::Cell::Mitosis'
+//
+// Separator must be non-empty (else throws Error)
+// Nesting of each mapping must be at most one more than the previous mapping (else throws)
+// Labels must not contain the separator, nor their tags any character Anki disallows, except whitespace (else throws)
+// Any extra fields of the mappings (e.g. TargetedMapping) are kept
+export function* resolve<M extends TagMapping>(mappings: Iterable<M>, separator: string = '::'): Generator<M & ResolvedMapping> {
+  if (!separator.length) {
+    throw new Error('Empty hierarchy separator');
+  }
+  // fully qualified tags of ancestors of the next mapping, indexed by nesting level
+  const stack: string[] = new Array();
+
+  for (const mapping of mappings) {
+    const { nesting, label } = mapping;
+    function throwError(code: TagErrorCode, msg: string) {
+      throw TagError.atMapping(code, msg, mapping);
+    }
+
+    if (nesting > stack.length) {
+      throwError('NestingSkip', `Nesting level ${nesting} skips a level below ${stack.length}`);
+    }
+    if (label.includes(separator)) {
+      throwError('LabelContainsSeparator', `Label contains hierarchy separator '${separator}'`);
+    }
+
+    stack.length = nesting;
+    const tag = nesting > 0 ? stack[nesting - 1] + separator + label : label;
+    // the tag, not the label, as the separator joins it in
+    const invalid = invalidTagCharacter(tag, true);
+    if (invalid !== null) {
+      throwError('InvalidLabelCharacter', `Tag '${tag}' contains ${invalid} not allowed in Anki tags`);
+    }
+    stack.push(tag);
+
+    yield { ...mapping, tag };
+  }
+
+  return;
+}
@@ -0,0 +1,72 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import { lex } from '#tags/lexWsOnly';
+import { parseCollect, TagError, type TagMapping } from '#tags/parseLine';
+import { parseStream, parseStreamRecovering } from '#tags/stream';
+
+async function* chunked(...chunks: string[]) {
+  yield* chunks;
+}
+
+async function collect(gen: AsyncGenerator<TagMapping, TagMapping[] | unknown>) {
+  const mappings: TagMapping[] = new Array();
+  let next;
+  while (!(next = await gen.next()).done) {
+    mappings.push(next.value);
+  }
+  return { mappings, diagnostics: next.value };
+}
+
+test('chunks split anywhere parse as the whole text', async () => {
+  await fc.assert(
+    fc.asyncProperty(
+      fc.string({ unit: fc.constantFrom('a', '\u{10300}', ' ', '\t', '\n', '\r', '\r\n', '\u2028', '\x85', '\xA0', '#', '"', '\\'), maxLength: 40 }),
+      fc.array(fc.nat()),
+      fc.record({ comments: fc.boolean(), quotes: fc.boolean(), ascii: fc.boolean(), trivia: fc.boolean() }),
+      async (str, cuts, options) => {
+        // cuts may split CRLF and surrogate pairs
+        const offsets = [0, ...cuts.map((c) => c % (str.length + 1)).sort((a, b) => a - b), str.length];
+        const chunks = offsets.slice(1).map((end, i) => str.substring(offsets[i], end));
+        const { mappings, diagnostics } = parseCollect(str, lex(str, 0, options));
+        expect(await collect(parseStreamRecovering(chunked(...chunks), options))).toEqual({
+          mappings: options.trivia ? mappings : mappings.map(({ trivia: _, ...mapping }) => mapping),
+          diagnostics,
+        });
+      },
+    ),
+  );
+});
+
+test('readable streams are read to the end', async () => {
+  const stream = new ReadableStream<string>({
+    start(controller) {
+      for (const chunk of ['a\r', '\n b', ' c\r', '\r\nd']) {
+        controller.enqueue(chunk);
+      }
+      controller.close();
+    },
+  });
+  const { mappings } = await collect(parseStream(stream));
+  expect(mappings.map(({ linum, line, label, mapping }) => [linum, line, label, mapping])).toEqual([
+    [1, { start: 0, end: 3 }, 'a', null],
+    [2, { start: 3, end: 8 }, 'b', 'c'],
+    [4, { start: 10, end: 11 }, 'd', null],
+  ]);
+  expect(stream.locked).toBe(false);
+});
+
+test('trivia is only held when asked for', async () => {
+  const text = ['# a', 'a x # b', ...Array(1000).fill(''), '# c', 'b'].join('\n');
+  const { mappings } = await collect(parseStream(chunked(text), { comments: true }));
+  expect(mappings.map(({ label, trivia }) => [label, trivia])).toEqual([['a', undefined], ['b', undefined]]);
+  const { mappings: [{ trivia }] } = await collect(parseStream(chunked(text), { comments: true, trivia: true }));
+  expect(trivia).toMatchObject({ leading: [{ text: '# a' }], trailing: { text: '# b' } });
+  expect(trivia!.after).toHaveLength(1001);
+});
+
+test('first error throws', async () => {
+  await expect(collect(parseStream(chunked('a\n', ' b\n', '\tc\n', 'd\n')))).rejects.toThrowError(TagError);
+});
@@ -0,0 +1,94 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { lex, type LexOptions } from '#tags/lexWsOnly';
+import { lineParser, TagError, type ParseSource, type TagDiagnostic, type TagMapping } from '#tags/parseLine';
+
+// Text in chunks of any size, e.g. from a TextDecoderStream
+export type ChunkSource = AsyncIterable<string> | ReadableStream<string>;
+
+export interface StreamOptions extends LexOptions {
+  trivia?: boolean, // attach trivia to mappings (see TagTrivia), held until the next mapping line; default off
+}
+
+async function* chunksOf(source: ChunkSource): AsyncGenerator<string> {
+  if (!(source instanceof ReadableStream)) {
+    yield* source;
+    return;
+  }
+  // not every browser makes a ReadableStream async iterable
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Complete lines, each with its line break (see lex()), then the rest after the last line break if any
+// A '\r' at the end of a chunk is held back, as it may start a '\r\n' finished by the next chunk
+async function* linesOf(source: ChunkSource, options: LexOptions): AsyncGenerator<string> {
+  const re_nl = options.ascii ? /\r\n|[\n\f\r]/gv : /\r\n|[\n\f\r\x85\u2028\u2029]/gv;
+  let buffer = '';
+  for await (const chunk of chunksOf(source)) {
+    // the rest of the buffer has no line break, except maybe a held back '\r'
+    re_nl.lastIndex = Math.max(buffer.length - 1, 0);
+    buffer += chunk;
+    let start = 0, match;
+    while ((match = re_nl.exec(buffer)) !== null && !(match[0] === '\r' && re_nl.lastIndex === buffer.length)) {
+      yield buffer.substring(start, re_nl.lastIndex);
+      start = re_nl.lastIndex;
+    }
+    buffer = buffer.substring(start);
+  }
+  if (buffer.length) {
+    yield buffer;
+  }
+}
+
+// Runs lineParser() over the whole text, but reading it a line at a time, so memory is bounded by the longest line
+// rather than the text; with trivia, also by the longest run of blank and comment lines, all held until the next mapping
+//
+// Spans and line numbers are into the whole text, as if it had been read at once
+async function* parseStreamReporting(source: ChunkSource, report: (d: TagDiagnostic) => void, options: StreamOptions): AsyncGenerator<TagMapping> {
+  // only the current line is kept, at its offset in the whole text
+  let line = '', lineStart = 0;
+  const current: ParseSource = { substring: (start, end) => line.substring(start - lineStart, end - lineStart) };
+  const parser = lineParser(current, report, { linum: 1, offset: 0 }, options.trivia ?? false);
+
+  for await (const text of linesOf(source, options)) {
+    // the last line stays current, for the mapping released at the end
+    lineStart += line.length;
+    line = text;
+    // each line starts at a token boundary, so lexes the same alone
+    for (const { start, end, ...token } of lex(text, 0, options)) {
+      const m = parser.push({ ...token, start: start + lineStart, end: end + lineStart });
+      if (m !== null) {
+        yield m;
+      }
+    }
+  }
+  const m = parser.end();
+  if (m !== null) {
+    yield m;
+  }
+}
+
+// Throws TagError at the first error, see parse()
+export function parseStream(source: ChunkSource, options: StreamOptions = {}): AsyncGenerator<TagMapping> {
+  return parseStreamReporting(source, (d) => { throw new TagError(d); }, options);
+}
+
+// Recovers from each error by skipping the offending line, see parseRecovering()
+// Yields all valid mappings, then returns the list of errors
+export async function* parseStreamRecovering(source: ChunkSource, options: StreamOptions = {}): AsyncGenerator<TagMapping, TagDiagnostic[]> {
+  const diagnostics: TagDiagnostic[] = new Array();
+  yield* parseStreamReporting(source, (d) => { diagnostics.push(d); }, options);
+  return diagnostics;
+}
@@ -0,0 +1,98 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import type { Arbitrary } from 'fast-check';
+import { lex, type LexOptions } from '#tags/lexWsOnly';
+import { parseCollect, parseDefault } from '#tags/parseLine';
+import { splitTargets, withTargets } from '#tags/targets';
+
+function targetsOf(str: string, options: LexOptions & { separator?: string | null } = {}) {
+  const { mappings } = parseCollect(str, lex(str, 0, options));
+  return mappings.map((m) => splitTargets(str, m, options).map(({ target, span }) => [target, span.start, span.end]));
+}
+
+test('label without mapping has no targets', () => {
+  expect(targetsOf('a\n')).toEqual([[]]);
+});
+
+test('by default each word is a target', () => {
+  expect(targetsOf('a  x\ty z\n')).toEqual([[['x', 3, 4], ['y', 5, 6], ['z', 7, 8]]]);
+});
+
+test('separator ignores whitespace around it, and drops empty targets', () => {
+  expect(targetsOf('a Cell Bio,Chem , ,Phys,\n', { separator: ',' })).toEqual([[
+    ['Cell Bio', 2, 10], ['Chem', 11, 15], ['Phys', 19, 23],
+  ]]);
+  expect(targetsOf('a x::y ::z\n', { separator: '::' })).toEqual([[['x', 2, 3], ['y', 5, 6], ['z', 9, 10]]]);
+});
+
+test('separator must be non-empty, without whitespace, escapes, comments or quotes', () => {
+  for (const separator of ['', ' ', ', ', '\\', '#', '"']) {
+    expect(() => targetsOf('a x\n', { separator })).toThrowError(`Invalid target separator ${JSON.stringify(separator)}`);
+  }
+  // even where there is nothing to split
+  expect(() => targetsOf('a\n', { separator: '' })).toThrowError();
+});
+
+test('quoted and escaped text is cooked, and separator in quotes does not split', () => {
+  const options = { separator: ',', quotes: true, comments: true };
+  expect(targetsOf('a "x, y"z,C\\#, \\"q\\" # c\n', options)).toEqual([[['x, yz', 2, 9], ['C#', 10, 13], ['"q"', 15, 20]]]);
+  expect(targetsOf('a "x y"z C\\#\n', { quotes: true, comments: true })).toEqual([[['x yz', 2, 8], ['C#', 9, 12]]]);
+});
+
+test('withTargets keeps mapping fields', () => {
+  const str = 'a b c\n d\n';
+  const [a, d] = withTargets(str, parseDefault(str));
+  expect(a).toMatchObject({ label: 'a', mapping: 'b c', targets: [{ target: 'b' }, { target: 'c' }] });
+  expect(d).toMatchObject({ label: 'd', mapping: null, targets: [] });
+});
+
+const arbText: Arbitrary<string> = fc.string({
+  unit: fc.constantFrom('a', 'b', ',', ' ', '\t', '\n', '\n ', '#', '\\', '"'),
+  maxLength: 40,
+});
+
+const arbOptions = fc.record({ comments: fc.boolean(), quotes: fc.boolean(), separator: fc.constantFrom(null, ',') });
+
+test('targets are ordered within the mapping, without surrounding whitespace', () => {
+  fc.assert(
+    fc.property(arbText, arbOptions, (str, options) => {
+      const { mappings } = parseCollect(str, lex(str, 0, options));
+      for (const m of mappings) {
+        const targets = splitTargets(str, m, options);
+        if (m.mappingSpan === null) {
+          expect(targets).toEqual([]);
+        }
+        let last = m.mappingSpan?.start ?? 0;
+        for (const { span } of targets) {
+          expect(span.start).toBeGreaterThanOrEqual(last);
+          expect(span.end).toBeGreaterThan(span.start);
+          expect(span.end).toBeLessThanOrEqual(m.mappingSpan!.end);
+          expect(str.substring(span.start, span.end)).toMatch(/^\P{White_Space}(?:.*\P{White_Space})?$/su);
+          last = span.end;
+        }
+      }
+    }),
+  );
+});
+
+test('without separator, each target is parsed as a label on its own', () => {
+  fc.assert(
+    fc.property(arbText, arbOptions, (str, options) => {
+      const { mappings } = parseCollect(str, lex(str, 0, options));
+      for (const m of mappings) {
+        const targets = splitTargets(str, m, { ...options, separator: null });
+        if (targets.length) {
+          expect(targets[0].span.start).toBe(m.mappingSpan!.start);
+          expect(targets[targets.length - 1].span.end).toBe(m.mappingSpan!.end);
+        }
+        for (const { target, span } of targets) {
+          const raw = str.substring(span.start, span.end);
+          expect(parseCollect(raw, lex(raw, 0, options)).mappings.map(({ label }) => label)).toEqual([target]);
+        }
+      }
+    }),
+  );
+});
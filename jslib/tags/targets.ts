@@ -0,0 +1,115 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { devAssert } from '#util';
+import type { Span } from '#types';
+import { lex, unescapeWord, type LexOptions } from '#tags/lexWsOnly';
+import type { MappingStream, TagMapping } from '#tags/parseLine';
+
+export interface MappingTarget {
+  target: string, // with lexer values, as for TagMapping.mapping
+  span: Span, // substring index for the target in raw string
+}
+
+export interface TargetedMapping extends TagMapping {
+  targets: MappingTarget[], // empty for a label without mapping
+}
+
+export interface TargetOptions extends LexOptions {
+  separator?: string | null, // between targets, ignoring whitespace around it; default whitespace only
+}
+
+// Separator between targets must be non-empty, and never part of whitespace, an escape, a comment or a quoted
+export function isTargetSeparator(separator: string): boolean {
+  return separator.length > 0 && !/[\p{White_Space}\\#"]/v.test(separator);
+}
+
+// Splits the mapping of a TagMapping parsed from str into its target tags, re-lexing it with the same LexOptions
+//
+// Without a separator, each word (see lineParser()) is a target
+// With a separator, targets are split by it, and whitespace is kept only inside a target, e.g. 'Cell Bio, Chem'
+// - separator inside a <quoted> does not split
+// - empty targets (e.g. from a trailing separator) are dropped
+// - separator must be valid (see isTargetSeparator(), else throws)
+export function splitTargets(str: string, { mappingSpan }: TagMapping, options: TargetOptions = {}): MappingTarget[] {
+  const { separator = null } = options;
+  if (separator !== null && !isTargetSeparator(separator)) {
+    throw new Error(`Invalid target separator ${JSON.stringify(separator)}`);
+  }
+  const targets: MappingTarget[] = new Array();
+  if (mappingSpan === null) {
+    return targets;
+  }
+
+  // current target, and whitespace after it which is only kept if it continues
+  let current: MappingTarget | null = null, ws = '';
+  function append(text: string, start: number, end: number) {
+    if (current === null) {
+      current = { target: text, span: { start, end } };
+    } else {
+      current.target += ws + text;
+      current.span.end = end;
+    }
+    ws = '';
+  }
+  function finish() {
+    if (current !== null) {
+      targets.push(current);
+    }
+    current = null;
+    ws = '';
+  }
+
+  for (const { tag, start, end, value } of lex(str, mappingSpan.start, options)) {
+    if (start >= mappingSpan.end) {
+      break;
+    }
+
+    const raw = str.substring(start, end);
+    switch (tag) {
+      case 'ws':
+        if (separator === null) {
+          finish();
+        } else if (current !== null) {
+          ws = raw;
+        }
+        break;
+      case 'quoted':
+        // else the line would not have parsed
+        devAssert(value !== undefined);
+        append(value, start, end);
+        break;
+      case 'nonws': {
+        if (separator === null) {
+          append(value ?? raw, start, end);
+          break;
+        }
+        // separator has no escaped characters, so never splits an escape
+        let pos = start;
+        raw.split(separator).forEach((piece, i) => {
+          if (i > 0) {
+            finish();
+          }
+          if (piece.length) {
+            append(unescapeWord(piece, options), pos, pos + piece.length);
+          }
+          pos += piece.length + separator.length;
+        });
+        break;
+      }
+      // mapping is within a line, before any <comment>
+      /* v8 ignore next */ default: devAssert(false);
+    }
+  }
+  finish();
+
+  return targets;
+}
+
+// Runs splitTargets() on each mapping
+export function* withTargets(str: string, mappings: MappingStream, options: TargetOptions = {}): Generator<TargetedMapping> {
+  for (const mapping of mappings) {
+    yield { ...mapping, targets: splitTargets(str, mapping, options) };
+  }
+  return;
+}
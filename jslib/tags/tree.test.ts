@@ -0,0 +1,83 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { expect, test } from 'vitest';
+import fc from 'fast-check';
+import type { Arbitrary } from 'fast-check';
+import { parse, TagError, type TagMapping } from '#tags/parseLine';
+import { arbInput, type FakeNesting } from '#tags/parseLine.arbitrary';
+import { buildTree, nestable, walkTree, type TagNode } from '#tags/tree';
+
+function mapping(linum: number, nesting: number, label: string): TagMapping {
+  return { linum, line: { start: 0, end: 0 }, lineText: '', nesting, label, mapping: null, labelSpan: { start: 0, end: 0 }, mappingSpan: null };
+}
+
+test('empty stream builds empty forest', () => {
+  expect(buildTree([])).toEqual([]);
+});
+
+test('non-top-level first mapping throws', () => {
+  expect(() => buildTree([mapping(1, 1, 'a')])).toThrowError(TagError);
+});
+
+test('nesting skipping a level throws with line number', () => {
+  expect(() => buildTree([mapping(1, 0, 'a'), mapping(2, 1, 'b'), mapping(4, 3, 'c')]))
+    .toThrowError(expect.objectContaining({ code: 'NestingSkip', linum: 4 }));
+});
+
+test('nestable drops mappings skipping a level', () => {
+  const kept = Array.from(nestable([mapping(1, 1, 'a'), mapping(2, 0, 'b'), mapping(3, 2, 'c'), mapping(4, 1, 'd'), mapping(5, 2, 'e')]));
+  expect(kept.map(({ label }) => label)).toEqual(['b', 'd', 'e']);
+});
+
+test('nesting may close several levels at once', () => {
+  const roots = buildTree([mapping(1, 0, 'a'), mapping(2, 1, 'b'), mapping(3, 2, 'c'), mapping(4, 0, 'd')]);
+  expect(roots.map(({ label }) => label)).toEqual(['a', 'd']);
+  expect(roots[0].children[0].children[0].path).toEqual(['a', 'b', 'c']);
+  expect(roots[1].path).toEqual(['d']);
+});
+
+const arbResult: Arbitrary<[FakeNesting[], TagMapping[], TagNode[]]> = arbInput.map(([tree, str, lexOut]) => {
+  const result = Array.from(parse(str, lexOut));
+  return [tree.toplevel, result, buildTree(result)];
+});
+
+function checkHarness(predicate: (f:FakeNesting[], r:TagMapping[], t:TagNode[]) => any) {
+  fc.assert(
+    fc.property(arbResult, (d) => predicate(...d)),
+  );
+}
+
+test('pre-order walk gives back parsed stream', () => {
+  checkHarness((_fake, result, roots) => {
+    const walked = Array.from(walkTree(roots));
+    expect(walked.length).toBe(result.length);
+    walked.forEach(({ parent: _p, children: _c, path: _a, ...rest }, i) => {
+      expect(rest).toEqual(result[i]);
+    });
+  });
+});
+
+test('tree shape follows generated AST', () => {
+  function sameShape(fake: FakeNesting[], nodes: TagNode[]) {
+    expect(nodes.length).toBe(fake.length);
+    fake.forEach((child, i) => sameShape(child.subtree?.children ?? [], nodes[i].children));
+  }
+
+  checkHarness((fake, _result, roots) => sameShape(fake, roots));
+});
+
+test('parent links and paths are consistent', () => {
+  checkHarness((_fake, _result, roots) => {
+    for (const node of walkTree(roots)) {
+      expect(node.path.length).toBe(node.nesting + 1);
+      expect(node.path[node.nesting]).toBe(node.label);
+      if (node.parent === null) {
+        expect(roots).toContain(node);
+      } else {
+        expect(node.parent.children).toContain(node);
+        expect(node.path.slice(0, -1)).toEqual(node.parent.path);
+      }
+    }
+  });
+});
@@ -0,0 +1,62 @@
+// Copyright Jeffrey Tsang <jeffrey.tsang@ieee.org>
+// GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
+
+import { TagError, type MappingStream, type TagMapping } from '#tags/parseLine';
+
+export interface TagNode extends TagMapping {
+  parent: TagNode | null, // null for top-level
+  children: TagNode[],
+  path: string[], // labels from top-level down to and including this node
+}
+
+// Given a stream of TagMappings, rebuilds the nesting structure as a forest of top-level TagNodes
+//
+// Nesting of each mapping must be at most one more than the previous mapping (else throws)
+// - very first mapping must be top-level
+// - any decrease in nesting is allowed, closing the corresponding number of subtrees
+export function buildTree(mappings: MappingStream): TagNode[] {
+  const roots: TagNode[] = new Array();
+  // ancestors of the next mapping, indexed by nesting level
+  const stack: TagNode[] = new Array();
+
+  for (const mapping of mappings) {
+    const { nesting, label } = mapping;
+    if (nesting > stack.length) {
+      throw TagError.atMapping('NestingSkip', `Nesting level ${nesting} skips a level below ${stack.length}`, mapping);
+    }
+
+    stack.length = nesting;
+    const parent = nesting > 0 ? stack[nesting - 1] : null;
+    const node: TagNode = {
+      ...mapping,
+      parent,
+      children: new Array(),
+      path: parent === null ? [label] : [...parent.path, label],
+    };
+
+    (parent === null ? roots : parent.children).push(node);
+    stack.push(node);
+  }
+
+  return roots;
+}
+
+// Drops mappings nesting deeper than allowed after the previous one kept, as after a line parseRecovering() skipped
+// So buildTree() does not throw on them, at the cost of their subtrees
+export function* nestable<M extends TagMapping>(mappings: Iterable<M>): Generator<M> {
+  let limit = 0;
+  for (const m of mappings) {
+    if (m.nesting <= limit) {
+      limit = m.nesting + 1;
+      yield m;
+    }
+  }
+}
+
+// Pre-order traversal, which is the original line order for a tree from buildTree()
+export function* walkTree(roots: Iterable<TagNode>): Generator<TagNode> {
+  for (const node of roots) {
+    yield node;
+    yield* walkTree(node.children);
+  }
+}
@@ -2,11 +2,18 @@
 // GNU AGPL, 3.0 or later <https://www.gnu.org/licenses/agpl-3.0.html>
 
 // Parametrized by tag type, returns indices into input string
-// User responsible for slicing wanted .substring(start, end)
+// User responsible for slicing wanted .substring(start, end), unless lexer gives a differing value (e.g. escapes)
 export interface Token<T> {
   tag: T,
   start: number,
   end: number,
+  value?: string,
 }
 
 export type LexStream<T> = Iterable<Token<T>>
+
+// Substring indices into input string, as for Token
+export interface Span {
+  start: number,
+  end: number,
+}